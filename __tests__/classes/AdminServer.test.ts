@@ -0,0 +1,95 @@
+import type { App } from '../../src/app/classes';
+import { AdminServer, Logger, Metrics } from '../../src/app/classes';
+
+function createApp(): App {
+  const log = new Logger({ level: 'error' });
+  const maps = {
+    store: new Map(),
+    translator: new Map([['test', { name: 'test', active: true, languages: ['en'] }]]),
+    tts: new Map(),
+    stt: new Map(),
+  };
+  const caches = { translator: new Map([['test', { stats: { hits: 1, misses: 2, entries: 2 } }]]), tts: new Map() };
+  const metrics = new Metrics();
+  metrics.increment('commands_total', { result: 'success' });
+  return {
+    status: 'ready',
+    log,
+    metrics,
+    engines: { maps, caches },
+    discord: { assistants: new Map(), shards: [] },
+    reports: { plugins: [] },
+  } as unknown as App;
+}
+
+async function request(port: number | undefined, path: string, token?: string): Promise<[number, unknown]> {
+  const headers: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {};
+  const res = await fetch(`http://127.0.0.1:${port ?? 0}${path}`, { headers });
+  const isJSON = res.headers.get('Content-Type')?.startsWith('application/json');
+  return [res.status, isJSON ? await res.json() : await res.text()];
+}
+
+describe('AdminServer', () => {
+  const server = new AdminServer({ token: 'secret', port: 0, monitor: { port: 0 } });
+
+  beforeAll(async () => {
+    await server.setup(createApp());
+  });
+
+  afterAll(async () => {
+    await server.destroy();
+  });
+
+  test('reject without a valid token', async () => {
+    expect(await request(server.port, '/engines')).toEqual([401, { error: 'Unauthorized' }]);
+    expect(await request(server.port, '/engines', 'wrong')).toEqual([401, { error: 'Unauthorized' }]);
+  });
+
+  test('respond to routes', async () => {
+    expect(await request(server.port, '/engines', 'secret')).toEqual([
+      200,
+      {
+        store: [],
+        translator: [{ name: 'test', active: true, languages: ['en'], cache: { hits: 1, misses: 2, entries: 2 } }],
+        tts: [],
+        stt: [],
+      },
+    ]);
+    expect(await request(server.port, '/plugins', 'secret')).toEqual([200, []]);
+    expect(await request(server.port, '/assistants/1', 'secret')).toEqual([
+      404,
+      { error: 'Guild assistant not found' },
+    ]);
+    expect(await request(server.port, '/unknown', 'secret')).toEqual([404, { error: 'Not found' }]);
+  });
+
+  test('respond to health checks on the monitor listener', async () => {
+    expect(await request(server.monitorPort, '/healthz')).toEqual([200, { status: 'ready', shards: [] }]);
+    expect(await request(server.monitorPort, '/engines')).toEqual([404, { error: 'Not found' }]);
+    expect(await request(server.port, '/healthz')).toEqual([401, { error: 'Unauthorized' }]);
+    expect(await request(server.port, '/healthz', 'secret')).toEqual([200, { status: 'ready', shards: [] }]);
+  });
+
+  test('respond to metrics in the Prometheus format', async () => {
+    const res = await fetch(`http://127.0.0.1:${server.monitorPort ?? 0}/metrics`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toBe('text/plain; version=0.0.4; charset=utf-8');
+    expect(await res.text()).toContain('iwassistant_commands_total{result="success"} 1');
+    expect(await request(server.port, '/metrics')).toEqual([401, { error: 'Unauthorized' }]);
+  });
+
+  test('not start without a token', async () => {
+    const server = new AdminServer(undefined);
+    await server.setup(createApp());
+    expect(server.port).toBeUndefined();
+    expect(server.monitorPort).toBeUndefined();
+  });
+
+  test('start only the monitor listener', async () => {
+    const server = new AdminServer({ monitor: { port: 0 } });
+    await server.setup(createApp());
+    expect(server.port).toBeUndefined();
+    expect(await request(server.monitorPort, '/healthz')).toEqual([200, { status: 'ready', shards: [] }]);
+    await server.destroy();
+  });
+});
@@ -0,0 +1,115 @@
+import type { AssistantOptions, AttachedCommand, EngineManager, IAudioPlayer, Logger } from '../../src/app/classes';
+import { Assistant } from '../../src/app/classes';
+
+class TestAssistant extends Assistant<{}> {
+  readonly locale = 'en';
+  readonly log = { debug: undefined } as unknown as Logger;
+  readonly engines = {} as EngineManager;
+  readonly audioPlayer = { active: false } as IAudioPlayer;
+
+  constructor(options: AssistantOptions, commands: AttachedCommand[]) {
+    super(options, () => {});
+    for (const command of commands) {
+      this.commands.set(command.id, command);
+    }
+    this.initializeInterpreters();
+  }
+}
+
+function createCommand(
+  name: string,
+  i18n: Partial<Record<Locale, { example: string; patterns: (string | [string, Record<string, number>])[] }>>,
+): AttachedCommand {
+  const command = Object.fromEntries(
+    Object.entries(i18n).map(([locale, metadata]) => [
+      locale,
+      { command: { [name]: { description: '', ...metadata } } },
+    ]),
+  );
+  return {
+    id: name,
+    name,
+    plugin: { name: 'test', description: '', config: {}, permissions: {}, i18n: command },
+    execute: () => {},
+  };
+}
+
+const commands = [
+  createCommand('play', {
+    en: { example: 'play music', patterns: ['play music'] },
+    ja: { example: '音楽を再生', patterns: ['おんがくをさいせい'] },
+  }),
+  createCommand('volumeMax', { en: { example: 'volume 100', patterns: ['volume max'] } }),
+  createCommand('volume', { en: { example: 'volume 10', patterns: [['volume (\\d+)', { level: 1 }]] } }),
+  createCommand('leave', { en: { example: 'leave', patterns: ['leave'] } }),
+  createCommand('config', { en: { example: 'server config', patterns: ['server.*?(config|setting)'] } }),
+];
+
+describe('Assistant', () => {
+  test('misheard activation word', () => {
+    const assistant = new TestAssistant({}, commands);
+    expect(assistant.interpret('OK assistan, play music', 'voice')).toMatchObject({
+      name: 'play',
+      locale: 'en',
+      score: expect.closeTo(0.89, 2) as number,
+    });
+    expect(assistant.interpret('OK assistan, play music', 'text')).toBeNull();
+    expect(assistant.interpret('OK coffee, play music', 'voice')).toBeNull();
+  });
+
+  test('thresholds for each locale', () => {
+    const transcript = 'イワシ、おんがくおさいせい'; // "を" misheard
+    expect(new TestAssistant({}, commands).interpret(transcript, 'voice')).toMatchObject({
+      name: 'play',
+      locale: 'ja',
+    });
+    const strict = new TestAssistant({ fuzzy: { threshold: { ja: 0.95 } } }, commands);
+    expect(strict.interpret(transcript, 'voice')).toBeNull();
+    expect(strict.interpret('assistant, play musik', 'voice')).toMatchObject({ name: 'play', locale: 'en' });
+  });
+
+  test('exact matches first', () => {
+    const assistant = new TestAssistant({}, commands);
+    expect(assistant.interpret('assistant volume 100', 'voice')).toMatchObject({
+      name: 'volume',
+      options: { level: '100' },
+      score: 1,
+    });
+    expect(assistant.interpret('assistant volume mac', 'voice')).toMatchObject({ name: 'volumeMax' });
+  });
+
+  test('examples of RegExp patterns', () => {
+    const assistant = new TestAssistant({}, commands);
+    expect(assistant.interpret('assistant server configs', 'voice')).toMatchObject({ name: 'config', score: 1 });
+    expect(assistant.interpret('assistant server confix', 'voice')).toMatchObject({ name: 'config' });
+    expect(assistant.interpret('assistant volume ten', 'voice')).toBeNull();
+  });
+
+  test('set and restore the activation word', () => {
+    const assistant = new TestAssistant({}, commands);
+    assistant.setActivationWord('Hey A.I.');
+    expect(assistant.activation.examples).toMatchObject({ en: 'Hey A.I., ', ja: 'Hey A.I.、' });
+    expect(assistant.interpret('Hey A.I., play music', 'text')).toMatchObject({ name: 'play', score: 1 });
+    expect(assistant.interpret('Hey AI, play music', 'text')).toBeNull();
+    expect(assistant.interpret('Hey AI, play music', 'voice')).toMatchObject({ name: 'play', score: 1 });
+    expect(assistant.interpret('OK assistant, play music', 'voice')).toBeNull();
+    assistant.setActivationWord();
+    expect(assistant.activation.examples).toMatchObject({ en: 'OK assistant, ' });
+    expect(assistant.interpret('OK assistant, play music', 'text')).toMatchObject({ name: 'play', score: 1 });
+    expect(assistant.interpret('Hey A.I., play music', 'voice')).toBeNull();
+  });
+
+  test('whole speeches without the activation word', () => {
+    const assistant = new TestAssistant({}, commands);
+    expect(assistant.interpret('Leave.', 'voice', false)).toMatchObject({ name: 'leave', score: 1 });
+    expect(assistant.interpret('I have to leave now', 'voice', false)).toBeNull();
+    expect(assistant.interpret('volume 20', 'voice', false)).toMatchObject({
+      name: 'volume',
+      options: { level: '20' },
+    });
+    expect(assistant.interpret('turn the volume 20 down', 'voice', false)).toBeNull();
+    expect(assistant.interpret('play musik', 'voice', false)).toMatchObject({ name: 'play' });
+    expect(assistant.interpret('I will play music later', 'voice', false)).toBeNull();
+    expect(assistant.interpret('I have to leave now', 'text', false)).toBeNull();
+  });
+});
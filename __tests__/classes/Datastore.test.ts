@@ -0,0 +1,95 @@
+import { Datastore } from '../../src/app/classes';
+import { sleep } from '../../src/app/utils';
+
+function createStore(data?: BasicObject): IStore & { data: Record<string, BasicObject> } {
+  const store = {
+    name: 'test',
+    data: data ? { 'guild-1': data } : ({} as Record<string, BasicObject>),
+    async get(key: string) {
+      return Promise.resolve(store.data[key]);
+    },
+    async set(key: string, value: BasicObject) {
+      store.data[key] = structuredClone(value);
+      return Promise.resolve(true);
+    },
+  };
+  return store;
+}
+
+const schema: PluginDataSchema = {
+  version: 3,
+  migrations: {
+    2: (data) => ({ ...data, b: 2 }),
+    3: (data) => ({ ...data, c: 3 }),
+  },
+};
+
+describe('Datastore', () => {
+  test('migrate from the first version', async () => {
+    const store = createStore({ test: { a: 1 } });
+    const data = new Datastore('guild-1');
+    await data.setup(store, () => {});
+    expect(await data.migrate('test', schema)).toBe(3);
+    expect(data.props).toEqual({ test: { a: 1, b: 2, c: 3 }, versions: { test: 3 } });
+    await data.destroy();
+    expect(store.data['guild-1']).toEqual(data.props);
+  });
+
+  test('migrate from the recorded version', async () => {
+    const data = new Datastore('guild-1');
+    await data.setup(createStore({ test: { a: 1 }, versions: { test: 2 } }), () => {});
+    expect(await data.migrate('test', schema)).toBe(3);
+    expect(data.get('test')).toEqual({ a: 1, c: 3 });
+  });
+
+  test('keep unversioned data in the current shape', async () => {
+    const data = new Datastore('guild-1');
+    await data.setup(createStore({ test: { a: 1, b: 20, c: 30 } }), () => {});
+    const idempotent: PluginDataSchema = {
+      version: 3,
+      migrations: {
+        2: (data) => ({ ...data, b: data['b'] ?? 2 }),
+        3: (data) => ({ ...data, c: data['c'] ?? 3 }),
+      },
+    };
+    expect(await data.migrate('test', idempotent)).toBe(3);
+    expect(data.props).toEqual({ test: { a: 1, b: 20, c: 30 }, versions: { test: 3 } });
+  });
+
+  test('record the current version without data', async () => {
+    const data = new Datastore('guild-1');
+    await data.setup(createStore(), () => {});
+    expect(await data.migrate('test', schema)).toBe(3);
+    expect(data.props).toEqual({ versions: { test: 3 } });
+  });
+
+  test('stop at the failed migration', async () => {
+    const errorHandler = jest.fn();
+    const data = new Datastore('guild-1');
+    await data.setup(createStore({ test: { a: 1 } }), errorHandler);
+    const failure: PluginDataSchema = {
+      ...schema,
+      migrations: {
+        ...schema.migrations,
+        3: () => {
+          throw new Error('test');
+        },
+      },
+    };
+    expect(await data.migrate('test', failure)).toBe(2);
+    expect(data.props).toEqual({ test: { a: 1, b: 2 }, versions: { test: 2 } });
+    expect(errorHandler).toHaveBeenCalledTimes(1);
+  });
+
+  test('keep the versions of concurrent migrations', async () => {
+    const store = createStore({ 'guild-a': { a: 1 }, 'guild-b': { b: 1 } });
+    const data = new Datastore('guild-1');
+    await data.setup(store, () => {});
+    const slow: PluginDataSchema = { version: 2, migrations: { 2: async (data) => sleep(10).then(() => data) } };
+    const fast: PluginDataSchema = { version: 2, migrations: { 2: async (data) => Promise.resolve(data) } };
+    expect(await Promise.all([data.migrate('guild-a', slow), data.migrate('guild-b', fast)])).toEqual([2, 2]);
+    expect(data.props['versions']).toEqual({ 'guild-a': 2, 'guild-b': 2 });
+    await data.destroy();
+    expect(store.data['guild-1']?.['versions']).toEqual({ 'guild-a': 2, 'guild-b': 2 });
+  });
+});
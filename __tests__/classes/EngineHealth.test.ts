@@ -0,0 +1,84 @@
+import type { EngineStateChange } from '../../src/app/classes';
+import { EngineHealth } from '../../src/app/classes';
+import { sleep } from '../../src/app/utils';
+
+function createHealth(): [EngineHealth, EngineStateChange['state'][]] {
+  const states: EngineStateChange['state'][] = [];
+  const health = new EngineHealth('tts', 'test', { threshold: 2, cooldown: 20, maxCooldown: 30 }, ({ state }) =>
+    states.push(state),
+  );
+  return [health, states];
+}
+
+describe('EngineHealth', () => {
+  test('open after consecutive errors', () => {
+    const [health, states] = createHealth();
+    health.failure();
+    health.success();
+    health.failure();
+    expect(health.isAvailable()).toBe(true);
+    health.failure();
+    expect(health.isAvailable()).toBe(false);
+    expect(states).toEqual(['open']);
+    expect(health.stats).toEqual({ state: 'open', successes: 1, errors: 3, cooldown: 20 });
+  });
+
+  test('close after a successful trial', async () => {
+    const [health, states] = createHealth();
+    health.failure();
+    health.failure();
+    await sleep(30);
+    expect(health.isAvailable()).toBe(true);
+    health.success();
+    expect(states).toEqual(['open', 'half-open', 'closed']);
+    expect(health.stats).toMatchObject({ state: 'closed', cooldown: 0 });
+  });
+
+  test('open again after a failed trial', async () => {
+    const [health, states] = createHealth();
+    health.failure();
+    health.failure();
+    await sleep(30);
+    expect(health.isAvailable()).toBe(true);
+    health.failure();
+    expect(health.isAvailable()).toBe(false);
+    expect(states).toEqual(['open', 'half-open', 'open']);
+    expect(health.stats).toMatchObject({ state: 'open', cooldown: 30 });
+  });
+
+  test('one trial at a time', async () => {
+    const [health, states] = createHealth();
+    health.failure();
+    health.failure();
+    await sleep(30);
+    expect(health.isAvailable()).toBe(true);
+    health.start();
+    expect(health.isAvailable()).toBe(false);
+    health.cancel();
+    expect(health.isAvailable()).toBe(true);
+    health.start();
+    health.success();
+    expect(health.isAvailable()).toBe(true);
+    expect(states).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  test('track a trial', async () => {
+    const [health] = createHealth();
+    health.failure();
+    health.failure();
+    await sleep(30);
+    expect(health.isAvailable()).toBe(true);
+    const trial = health.track(async () => sleep(10))();
+    expect(health.isAvailable()).toBe(false);
+    await trial;
+    expect(health.stats).toMatchObject({ state: 'closed' });
+  });
+
+  test('track', async () => {
+    const [health] = createHealth();
+    const fn = health.track(async (fail: boolean) => (fail ? Promise.reject(new Error('test')) : Promise.resolve(1)));
+    await expect(fn(false)).resolves.toBe(1);
+    await expect(fn(true)).rejects.toThrow('test');
+    expect(health.stats).toMatchObject({ successes: 1, errors: 1 });
+  });
+});
@@ -0,0 +1,84 @@
+import { Console } from 'node:console';
+import { PassThrough, Writable } from 'node:stream';
+import type { App, EngineManagerOptions, ModuleLoader } from '../../src/app/classes';
+import { EngineManager, EventEmitter, Logger, Metrics } from '../../src/app/classes';
+
+type Events = {
+  ready: [];
+  start: [request: STTRequest<'home'>];
+  end: [request: STTRequest<'home'>];
+  abort: [error?: unknown];
+  result: [transcript: string, isFinal: boolean];
+};
+
+class Audio extends EventEmitter<Events> implements RecognizableAudio<'home'> {
+  readonly type = 'home';
+  readonly resource = new PassThrough();
+  readonly results: string[] = [];
+  readonly transcript = '';
+  aborted = false;
+
+  abort(error?: unknown): void {
+    this.aborted = true;
+    this.emit('abort', error);
+  }
+}
+
+async function createManager(names?: string[], metrics = new Metrics()): Promise<EngineManager> {
+  const log = new Logger({ console: new Console(new Writable({ write: (_, __, callback) => callback() })) });
+  const creator = {
+    name: 'stt-test',
+    description: '',
+    config: {},
+    createSTT: () => ({ active: true, locales: { 'en-US': { test: 'en-US: test' } }, transcribe: () => true }),
+  };
+  const loader = {
+    load: async () => Promise.resolve(),
+    get: (name: string) => (name === creator.name ? creator : undefined),
+    createReport: () => [],
+    clear: () => {},
+  } as unknown as ModuleLoader;
+  const options = { 'stt-test': { health: { threshold: 1, cooldown: 20 } } } as EngineManagerOptions;
+  const manager = new EngineManager(options, loader);
+  await manager.setup({ log, metrics } as unknown as App, names);
+  return manager;
+}
+
+function transcribe(manager: EngineManager): Audio {
+  const audio = new Audio();
+  manager.getSTT().transcribe({ voice: '', interim: false, audio });
+  return audio;
+}
+
+describe('EngineManager', () => {
+  test('STT health by the end of the recognition', async () => {
+    const manager = await createManager();
+    const health = manager.health.stt.get('test');
+    transcribe(manager).emit('end', {} as STTRequest<'home'>);
+    expect(health?.stats).toMatchObject({ state: 'closed', successes: 1, errors: 0 });
+    transcribe(manager).abort();
+    expect(health?.stats).toMatchObject({ state: 'closed', successes: 1, errors: 0 });
+    transcribe(manager).abort(new Error('test'));
+    expect(health?.stats).toMatchObject({ state: 'open', successes: 1, errors: 1 });
+  });
+
+  test('STT metrics by the end of the recognition', async () => {
+    const metrics = new Metrics('test_');
+    const manager = await createManager(undefined, metrics);
+    const audio = transcribe(manager);
+    expect(metrics.render()).not.toContain('engine_request_seconds');
+    audio.resource.resume().end();
+    await new Promise((resolve) => audio.resource.once('close', resolve));
+    audio.emit('end', {} as STTRequest<'home'>);
+    expect(metrics.render()).toContain('test_engine_request_seconds_count{type="stt",name="test"} 1');
+    transcribe(manager).abort(new Error('test'));
+    expect(metrics.render()).toContain('test_engine_request_errors_total{type="stt",name="test"} 1');
+  });
+
+  test('set up only the specified engines', async () => {
+    const manager = await createManager(['stt-test']);
+    expect(manager.maps.stt.has('test')).toBe(true);
+    const storeManager = await createManager(['store-local']);
+    expect(storeManager.maps.stt.has('test')).toBe(false);
+  });
+});
@@ -0,0 +1,237 @@
+import type { ChatInputCommandInteraction, Guild, GuildMember, Message } from 'discord.js';
+import { ChannelType, Collection } from 'discord.js';
+import type {
+  App,
+  AttachedCommand,
+  AttachedPlugin,
+  Datastore,
+  EngineManager,
+  GuildAudioReceiver,
+  GuildVoiceChannel,
+  Logger,
+} from '../../src/app/classes';
+import { GuildAssistant, Metrics, RateLimiter } from '../../src/app/classes';
+
+class TestGuildAssistant extends GuildAssistant {
+  addCommand(command: AttachedCommand): void {
+    this.commands.set(command.id, command);
+    this.initializeInterpreters();
+  }
+}
+
+function createMember(id: string, displayName: string, username: string): GuildMember {
+  const permissions = { has: () => true };
+  return { id, displayName, user: { id, username }, voice: { channelId: null }, permissions } as unknown as GuildMember;
+}
+
+const members = [createMember('1', 'Alice', 'alice01'), createMember('2', 'Bob', 'bob02')];
+
+const channels = [
+  { id: '10', name: 'general', type: ChannelType.GuildText },
+  { id: '20', name: 'Lounge', type: ChannelType.GuildVoice },
+  { id: '30', name: 'text', type: ChannelType.GuildCategory },
+  { id: '40', name: 'forum', type: ChannelType.GuildForum },
+];
+
+function createAssistant(): TestGuildAssistant {
+  const guild = {
+    id: 'guild',
+    members: { cache: new Collection(members.map((member) => [member.id, member])) },
+    channels: { cache: new Collection(channels.map((channel) => [channel.id, channel])) },
+    client: { application: { id: 'app' }, rest: { put: async () => Promise.resolve({}) } },
+  } as unknown as Guild;
+  const log = { debug: undefined, info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+  const data = {
+    setup: async () => Promise.resolve(),
+    destroy: async () => Promise.resolve(),
+    get: () => undefined,
+    set: () => {},
+  } as unknown as Datastore<'guild'>;
+  const tts = { name: 'tts-test', defaultVoices: {} };
+  const engines = {
+    getStore: () => ({}),
+    getTTS: () => tts,
+    getSTT: () => tts,
+    maps: { stt: new Map() },
+  } as unknown as EngineManager;
+  return new TestGuildAssistant(
+    { locale: 'en' },
+    {
+      member: members[0]!,
+      guild,
+      data,
+      log,
+      engines,
+      metrics: new Metrics(),
+      rateLimiter: new RateLimiter(),
+      voiceChannel: { active: false, on: () => {}, destroy: () => {} } as unknown as GuildVoiceChannel,
+      audioReceiver: { on: () => {} } as unknown as GuildAudioReceiver,
+    },
+  );
+}
+
+function createCommand(
+  name: string,
+  slots: Record<string, CommandSlot>,
+  patterns: [pattern: string, options: Record<string, number>][],
+  execute: AttachedCommand['execute'] = () => {},
+): AttachedCommand {
+  const plugin: AttachedPlugin = {
+    name: 'guild-test',
+    description: '',
+    config: {},
+    permissions: {},
+    i18n: { en: { command: { [name]: { description: ['', {}], example: '', patterns } } } },
+    slots: { [name]: slots },
+  };
+  return { id: name, name, plugin, execute };
+}
+
+const app = { hook: async () => Promise.resolve(true), plugins: { createContext: () => [] } } as unknown as App;
+
+// run a text or voice command asking the first member
+function ask(
+  assistant: GuildAssistant,
+  type: 'text' | 'voice',
+  options?: { timeout?: number },
+): { answer: Promise<string | undefined>; prompted: Promise<void> } {
+  let prompt: (() => void) | undefined;
+  const prompted = new Promise<void>((resolve) => (prompt = resolve));
+  const reply = async (): Promise<object> => {
+    prompt?.();
+    return Promise.resolve({ reply: async () => Promise.resolve({}) });
+  };
+  const answer = new Promise<string | undefined>((resolve) => {
+    const execute = async (event: CommandEvent): Promise<void> =>
+      resolve(await (event as CommandEvent<'guild'>).ask({ content: '' }, options));
+    const command = {
+      ...createCommand('ask', {}, [], execute),
+      locale: 'en' as const,
+      options: {},
+      script: '',
+      score: 1,
+    };
+    const member = members[0]!;
+    if (type === 'text') {
+      const source = { member, author: member.user, channelId: '10', reply, react: reply } as unknown as Message<true>;
+      assistant.run({ type, command, source });
+    } else {
+      const source = { member, channel: channels[1], destination: { id: '10', send: reply } };
+      assistant.run({ type, command, source: source as unknown as RecognizableAudio<'guild'> });
+    }
+  });
+  return { answer, prompted };
+}
+
+describe('GuildAssistant', () => {
+  test('member and channel slots', () => {
+    const assistant = createAssistant();
+    assistant.addCommand(
+      createCommand('invite', { target: 'member', channel: 'channel' }, [
+        ['invite (.+) to (.+)', { target: 1, channel: 2 }],
+      ]),
+    );
+    const interpret = (text: string): Record<string, unknown> | undefined =>
+      assistant.interpret(`assistant ${text}`)?.options;
+    expect(interpret('invite <@1> to <#10>')).toEqual({ target: members[0], channel: channels[0] });
+    expect(interpret('invite @bob to #lounge')).toEqual({ target: members[1], channel: channels[1] });
+    expect(interpret('invite alice01 to general')).toEqual({ target: members[0], channel: channels[0] });
+    expect(interpret('invite carol to general')).toBeUndefined();
+    expect(interpret('invite alice to <#30>')).toBeUndefined(); // category
+    expect(interpret('invite alice to <#40>')).toBeUndefined();
+    expect(interpret('invite alice to forum')).toBeUndefined();
+  });
+
+  test('try the next pattern for invalid slots', () => {
+    const assistant = createAssistant();
+    assistant.addCommand(createCommand('skip', { count: 'number' }, [['skip (.+)', { count: 1 }]]));
+    assistant.addCommand(createCommand('skipTo', {}, [['skip (.+)', { title: 1 }]]));
+    expect(assistant.interpret('assistant skip 3')).toMatchObject({ name: 'skip', options: { count: 3 } });
+    expect(assistant.interpret('assistant skip intro')).toMatchObject({ name: 'skipTo', options: { title: 'intro' } });
+  });
+
+  test('slash command options', async () => {
+    const assistant = createAssistant();
+    const execute = jest.fn();
+    const executed = new Promise<void>((resolve) => execute.mockImplementation(() => resolve()));
+    const command = createCommand(
+      'invite',
+      { target: 'member', channel: 'channel', count: 'number' },
+      [['invite (.+) to (.+) (.+)', { target: 1, channel: 2, count: 3 }]],
+      execute,
+    );
+    const createSource = (
+      data: Record<string, unknown>[],
+      reply = jest.fn(async () => Promise.resolve()),
+    ): ChatInputCommandInteraction<'cached'> =>
+      ({
+        channel: channels[0],
+        channelId: '10',
+        member: members[0],
+        user: members[0]?.user,
+        locale: 'en-US',
+        replied: false,
+        options: { data },
+        reply,
+        followUp: jest.fn(async () => Promise.resolve()),
+      }) as unknown as ChatInputCommandInteraction<'cached'>;
+    const reply = jest.fn(async () => Promise.resolve());
+    assistant.run({ type: 'slash', command, source: createSource([{ name: 'count', value: 'many' }], reply) });
+    expect(reply).toHaveBeenCalledWith('⚠️');
+    expect(execute).not.toHaveBeenCalled();
+    const valid = createSource([
+      { name: 'target', value: '2', member: members[1] },
+      { name: 'channel', value: '20', channel: channels[1] },
+      { name: 'count', value: 3 },
+    ]);
+    assistant.run({ type: 'slash', command, source: valid });
+    await executed;
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(execute).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'slash', options: { target: members[1], channel: channels[1], count: 3 } }),
+    );
+  });
+
+  test('answer in the channel of the prompt', async () => {
+    const assistant = createAssistant();
+    const text = ask(assistant, 'text');
+    await text.prompted;
+    expect(assistant.answer('1', 'no', '20')).toBe(false);
+    expect(assistant.answer('2', 'no', '10')).toBe(false);
+    expect(assistant.answer('1', 'yes', '10')).toBe(true);
+    expect(await text.answer).toBe('yes');
+    expect(assistant.isAsking('1')).toBe(false);
+    const voice = ask(assistant, 'voice');
+    await voice.prompted;
+    expect(assistant.answer('1', 'no', '20')).toBe(false); // voice channel
+    expect(assistant.answer('1', 'yes', '10')).toBe(true);
+    expect(await voice.answer).toBe('yes');
+    const transcript = ask(assistant, 'voice');
+    await transcript.prompted;
+    expect(assistant.answer('1', 'yes')).toBe(true);
+    expect(await transcript.answer).toBe('yes');
+  });
+
+  test('ask timeout and replacement', async () => {
+    const assistant = createAssistant();
+    expect(await ask(assistant, 'text', { timeout: 10 }).answer).toBeUndefined();
+    expect(assistant.isAsking('1')).toBe(false);
+    const first = ask(assistant, 'text');
+    await first.prompted;
+    const second = ask(assistant, 'text');
+    await second.prompted;
+    expect(await first.answer).toBeUndefined();
+    expect(assistant.answer('1', 'yes', '10')).toBe(true);
+    expect(await second.answer).toBe('yes');
+  });
+
+  test('cancel questions on destroy', async () => {
+    const assistant = createAssistant();
+    await assistant.setup(app, []);
+    const question = ask(assistant, 'text');
+    await question.prompted;
+    await assistant.destroy();
+    expect(await question.answer).toBeUndefined();
+    expect(assistant.isAsking('1')).toBe(false);
+  });
+});
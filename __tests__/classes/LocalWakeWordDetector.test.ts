@@ -0,0 +1,57 @@
+import type { GuildMember } from 'discord.js';
+import { LocalWakeWordDetector } from '../../src/app/classes';
+import { sleep } from '../../src/app/utils';
+
+const member = {} as GuildMember;
+
+// print a line after receiving 1600 bytes, 50ms in 16kHz
+const script = `
+let length = 0;
+process.stdin.on('data', (chunk) => {
+  length += chunk.length;
+  if (length >= 1600) console.log('detected');
+});
+`;
+
+function createDetector(): LocalWakeWordDetector {
+  return new LocalWakeWordDetector({ exec: process.execPath, args: ['-e', script] }, (error) => {
+    throw error;
+  });
+}
+
+describe('LocalWakeWordDetector', () => {
+  test('detect the wake word', async () => {
+    const detect = jest.fn();
+    const session = createDetector().start(member, detect);
+    session.write(Buffer.alloc(1920 * 2)); // 20ms in 48kHz
+    await sleep(1000);
+    expect(detect).not.toHaveBeenCalled();
+    session.write(Buffer.alloc(1920 * 2 * 2));
+    await sleep(1000);
+    expect(detect).toHaveBeenCalledTimes(1);
+    session.end();
+  });
+
+  test('never detect after the end', async () => {
+    const detect = jest.fn();
+    const session = createDetector().start(member, detect);
+    session.end();
+    session.write(Buffer.alloc(1920 * 2 * 3));
+    await sleep(1000);
+    expect(detect).not.toHaveBeenCalled();
+  });
+
+  test('check the keyword spotter', async () => {
+    expect(await createDetector().check()).toBe(true);
+    const error = jest.fn();
+    const detector = new LocalWakeWordDetector({ exec: `${process.execPath}-missing` }, error);
+    expect(await detector.check()).toBe(false);
+    expect(error).toHaveBeenCalledWith(expect.objectContaining({ code: 'ENOENT' }));
+  });
+
+  test('unsupported sample rate', () => {
+    expect(() => new LocalWakeWordDetector({ exec: 'spotter', sampleRate: 44_100 }, () => {})).toThrow(
+      'Unsupported sample rate',
+    );
+  });
+});
@@ -1,3 +1,6 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { Logger } from '../../src/app/classes';
 
 const console = {} as Console;
@@ -169,6 +172,68 @@ describe('Logger', () => {
     });
   });
 
+  describe('format', () => {
+    test('json', () => {
+      const log = new Logger({ console, format: 'json' }).createChild('C1').createChild('C2');
+      log.info('info', 1, { a: true });
+      expect(JSON.parse(results.info ?? '')).toEqual({
+        timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/) as unknown,
+        level: 'info',
+        prefix: ['C1', 'C2'],
+        message: 'info 1 { a: true }',
+      });
+    });
+
+    test('json with errors', () => {
+      const log = new Logger({ console, format: 'json' });
+      log.error('failed', new Error('error1', { cause: new Error('error2', { cause: 'error3' }) }));
+      expect(JSON.parse(results.error ?? '')).toMatchObject({
+        level: 'error',
+        prefix: [],
+        message: 'failed Error: error1',
+        errors: [
+          {
+            name: 'Error',
+            message: 'error1',
+            stack: expect.stringContaining('Error: error1') as unknown,
+            cause: { name: 'Error', message: 'error2', cause: "'error3'" },
+          },
+        ],
+      });
+    });
+  });
+
+  describe('file', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'iwassistant-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('alongside console', () => {
+      const path = join(dir, 'test.log');
+      const log = new Logger({ console, color: true, timestamp: false, file: { path } });
+      callAllFuncs(log.createChild('CHILD'));
+      expect(results.error).toBe('\u001B[31m[ERR] [CHILD]\u001B[0m error');
+      expect(readFileSync(path, 'utf8')).toBe('[INF] [CHILD] info\n[WRN] [CHILD] warn\n[ERR] [CHILD] error\n');
+    });
+
+    test('rotation', () => {
+      const path = join(dir, 'test.log');
+      const log = new Logger({ console, timestamp: false, format: 'json', file: { path, size: 100 } });
+      log.info('1');
+      log.info('2');
+      const files = readdirSync(dir).sort();
+      expect(files).toHaveLength(2);
+      expect(files[0]).toBe('test.log');
+      expect(JSON.parse(readFileSync(path, 'utf8'))).toMatchObject({ message: '2' });
+    });
+  });
+
   test('as handler', async () => {
     const log = new Logger();
     log.error = jest.fn();
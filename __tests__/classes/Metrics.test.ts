@@ -0,0 +1,51 @@
+import { Metrics } from '../../src/app/classes';
+
+describe('Metrics', () => {
+  test('render counters and summaries', () => {
+    const metrics = new Metrics('test_');
+    metrics.define('requests_total', 'counter', 'Number of requests');
+    metrics.increment('requests_total', { name: 'a' });
+    metrics.increment('requests_total', { name: 'a' }, 2);
+    metrics.increment('requests_total', { name: 'b"\n' });
+    metrics.observe('latency_seconds', { name: 'a' }, 0.5);
+    metrics.observe('latency_seconds', { name: 'a' }, 1);
+    expect(metrics.render()).toBe(
+      [
+        '# HELP test_requests_total Number of requests',
+        '# TYPE test_requests_total counter',
+        'test_requests_total{name="a"} 3',
+        'test_requests_total{name="b\\"\\n"} 1',
+        '# HELP test_latency_seconds latency seconds',
+        '# TYPE test_latency_seconds summary',
+        'test_latency_seconds_sum{name="a"} 1.5',
+        'test_latency_seconds_count{name="a"} 2',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('reset gauges before collecting', () => {
+    const metrics = new Metrics('test_');
+    let depth = 2;
+    metrics.define('depth', 'gauge', 'Depth');
+    metrics.collect(() => {
+      if (depth > 0) metrics.set('depth', { id: `${depth}` }, depth);
+    });
+    expect(metrics.render()).toContain('test_depth{id="2"} 2');
+    depth = 0;
+    expect(metrics.render()).toBe('# HELP test_depth Depth\n# TYPE test_depth gauge\n');
+  });
+
+  test('track latencies and errors', async () => {
+    const metrics = new Metrics('test_');
+    const fn = metrics.track('request', { name: 'a' }, async (fail: boolean) => {
+      if (fail) throw new Error('failed');
+      return Promise.resolve(true);
+    });
+    await fn(false);
+    await expect(fn(true)).rejects.toThrow('failed');
+    const text = metrics.render();
+    expect(text).toContain('test_request_seconds_count{name="a"} 2');
+    expect(text).toContain('test_request_errors_total{name="a"} 1');
+  });
+});
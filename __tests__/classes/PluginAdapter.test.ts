@@ -0,0 +1,144 @@
+import type { AdaptablePlugin, App, PluginManager } from '../../src/app/classes';
+import { Datastore, PluginAdapter } from '../../src/app/classes';
+
+type TestInterface = {
+  beforeDestroy(reason: string): Awaitable<void>;
+  onReady(): Awaitable<void>;
+  beforeCheck(value: number): Awaitable<void | boolean>;
+  useCheck(value: number, next: () => Promise<string>): Awaitable<string>;
+  onPing(value: number): Awaitable<void>;
+};
+
+class TestAdapter extends PluginAdapter<TestInterface> {
+  readonly locale = 'en';
+
+  async setup(resource: PluginManager, app: App): Promise<void> {
+    await this.attach(resource, { type: 'app', app });
+  }
+
+  async reload(resource: PluginManager, app: App, name: string): Promise<void> {
+    await this.reattach(resource, name, { type: 'app', app }, ['reload']);
+  }
+}
+
+function createPlugin(name: string, calls: string[], version: number): AdaptablePlugin {
+  return {
+    name,
+    description: '',
+    config: {},
+    permissions: {},
+    i18n: {},
+    setupApp: () => ({
+      beforeDestroy: (reason: string) => void calls.push(`${name}@${version}:destroy:${reason}`),
+      onReady: () => void calls.push(`${name}@${version}:ready`),
+      onPing: (value: number) => void calls.push(`${name}@${version}:ping:${value}`),
+      commandPlay: () => {},
+    }),
+  };
+}
+
+describe('PluginAdapter', () => {
+  test('reattach a plugin', async () => {
+    const calls: string[] = [];
+    let plugins = [createPlugin('app-a', calls, 1), createPlugin('app-b', calls, 1)];
+    const resource = { createContext: () => plugins } as unknown as PluginManager;
+    const app = { data: { migrate: async () => {}, createProperty: () => ({}) } } as unknown as App;
+    const adapter = new TestAdapter();
+    await adapter.setup(resource, app);
+    expect([...adapter.commands.keys()]).toEqual(['a-play', 'b-play']);
+    plugins = [createPlugin('app-a', calls, 2), createPlugin('app-b', calls, 1)];
+    await adapter.reload(resource, app, 'app-a');
+    expect([...adapter.commands.keys()].sort()).toEqual(['a-play', 'b-play']);
+    adapter.emit('ping', 1);
+    await adapter.hook('destroy', 'halt');
+    expect(calls).toEqual([
+      'app-a@1:destroy:reload',
+      'app-a@2:ready',
+      'app-b@1:ping:1',
+      'app-a@2:ping:1',
+      'app-b@1:destroy:halt',
+      'app-a@2:destroy:halt',
+    ]);
+  });
+
+  test('call hooks by the priorities until canceled', async () => {
+    const calls: string[] = [];
+    const createHookPlugin = (name: string, priority?: number): AdaptablePlugin => ({
+      name,
+      description: '',
+      config: {},
+      permissions: {},
+      i18n: {},
+      ...(priority === undefined ? {} : { priorities: { beforeCheck: priority } }),
+      setupApp: () => ({
+        beforeCheck: (value: number) => {
+          calls.push(name);
+          return value !== priority;
+        },
+      }),
+    });
+    const plugins = [createHookPlugin('app-a'), createHookPlugin('app-b', 10), createHookPlugin('app-c', -1)];
+    const resource = { createContext: () => plugins } as unknown as PluginManager;
+    const app = { data: { migrate: async () => {}, createProperty: () => ({}) } } as unknown as App;
+    const adapter = new TestAdapter();
+    await adapter.setup(resource, app);
+    expect(await adapter.hook('check', 0)).toBe(true);
+    expect(calls.splice(0)).toEqual(['app-b', 'app-a', 'app-c']);
+    expect(await adapter.hook('check', 10)).toBe(false);
+    expect(calls.splice(0)).toEqual(['app-b']);
+  });
+
+  test('pipe middlewares by the priorities', async () => {
+    const calls: string[] = [];
+    const createMiddlewarePlugin = (name: string, priority: number): AdaptablePlugin => ({
+      name,
+      description: '',
+      config: {},
+      permissions: {},
+      i18n: {},
+      priorities: { useCheck: priority },
+      setupApp: () => ({
+        useCheck: async (value: number, next: () => Promise<string>) => {
+          calls.push(name);
+          if (value === priority) return `stopped by ${name}`;
+          return `${await next()} via ${name}`;
+        },
+      }),
+    });
+    const plugins = [createMiddlewarePlugin('app-a', 0), createMiddlewarePlugin('app-b', 10)];
+    const resource = { createContext: () => plugins } as unknown as PluginManager;
+    const app = { data: { migrate: async () => {}, createProperty: () => ({}) } } as unknown as App;
+    const adapter = new TestAdapter();
+    await adapter.setup(resource, app);
+    expect(await adapter.pipe('check', [1], async () => Promise.resolve('done'))).toBe('done via app-a via app-b');
+    expect(calls.splice(0)).toEqual(['app-b', 'app-a']);
+    expect(await adapter.pipe('check', [10], async () => Promise.resolve('done'))).toBe('stopped by app-b');
+    expect(calls.splice(0)).toEqual(['app-b']);
+  });
+
+  test('unsubscribe from the data on reloading', async () => {
+    const calls: string[] = [];
+    const data = new Datastore('app');
+    const createSubscriberPlugin = (version: number): AdaptablePlugin => ({
+      name: 'app-a',
+      description: '',
+      config: {},
+      permissions: {},
+      i18n: {},
+      setupApp: () => {
+        const unsubscribe = data.subscribe('config', (value) => void calls.push(`${version}:${String(value)}`));
+        return { beforeDestroy: () => unsubscribe() };
+      },
+    });
+    let plugins = [createSubscriberPlugin(1)];
+    const resource = { createContext: () => plugins } as unknown as PluginManager;
+    const app = { data } as unknown as App;
+    const adapter = new TestAdapter();
+    await adapter.setup(resource, app);
+    data.set('config', 'a');
+    plugins = [createSubscriberPlugin(2)];
+    await adapter.reload(resource, app, 'app-a');
+    data.set('config', 'b');
+    expect(calls).toEqual(['1:a', '2:b']);
+  });
+});
@@ -0,0 +1,57 @@
+import { Console } from 'node:console';
+import { Writable } from 'node:stream';
+import type { AdaptablePlugin, App, ModuleLoader } from '../../src/app/classes';
+import { Logger, PluginManager } from '../../src/app/classes';
+
+function createPlugin(name: string, dependencies: string[] = [], optionalDependencies: string[] = []): AdaptablePlugin {
+  return { name, description: '', config: {}, permissions: {}, i18n: {}, dependencies, optionalDependencies };
+}
+
+async function createManager(plugins: AdaptablePlugin[]): Promise<[PluginManager, string[]]> {
+  const messages: string[] = [];
+  const stream = new Writable({
+    write(chunk: Buffer, _, callback) {
+      messages.push(chunk.toString().trim());
+      callback();
+    },
+  });
+  const log = new Logger({ console: new Console(stream), color: false, timestamp: false });
+  const loader = {
+    load: async () => Promise.resolve(),
+    get: (name: string) => plugins.find((plugin) => plugin.name === name),
+    createReport: () => [],
+  } as unknown as ModuleLoader;
+  const options = Object.fromEntries(plugins.map(({ name }) => [name, true]));
+  const manager = new PluginManager(options, loader);
+  await manager.setup({ log } as unknown as App);
+  return [manager, messages];
+}
+
+describe('PluginManager', () => {
+  test('sort by dependencies', async () => {
+    const [manager, messages] = await createManager([
+      createPlugin('guild-a', ['guild-b']),
+      createPlugin('guild-b', [], ['guild-c']),
+      createPlugin('guild-c'),
+      createPlugin('guild-d'),
+    ]);
+    expect(manager.createContext().map(({ name }) => name)).toEqual(['guild-c', 'guild-b', 'guild-a', 'guild-d']);
+    expect(messages).toEqual([]);
+  });
+
+  test('disable plugins missing dependencies', async () => {
+    const [manager, messages] = await createManager([
+      createPlugin('guild-a', ['guild-b']),
+      createPlugin('guild-b', ['guild-c']),
+      createPlugin('guild-c'),
+      createPlugin('guild-d', [], ['guild-c']),
+    ]);
+    expect(manager.createContext([{ 'guild-c': false } as never]).map(({ name }) => name)).toEqual(['guild-d']);
+    expect(manager.createContext([{ 'guild-c': false } as never]).map(({ name }) => name)).toEqual(['guild-d']);
+    expect(messages).toEqual([
+      '[WRN] [PLUGIN] Disabled guild-b, missing dependencies: guild-c',
+      '[WRN] [PLUGIN] Disabled guild-a, missing dependencies: guild-b',
+      '[WRN] [PLUGIN] Limited guild-d, missing optional dependencies: guild-c',
+    ]);
+  });
+});
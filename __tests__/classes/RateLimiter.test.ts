@@ -0,0 +1,52 @@
+import { RateLimiter } from '../../src/app/classes';
+
+describe('RateLimiter', () => {
+  test('throttle after the burst, and refill over time', () => {
+    const limiter = new RateLimiter({ user: { burst: 2, refill: 1000 } });
+    expect(limiter.consume('1', 'play', 0)).toBe(true);
+    expect(limiter.consume('1', 'stop', 0)).toBe(true);
+    expect(limiter.consume('1', 'play', 500)).toBe(false);
+    expect(limiter.consume('2', 'play', 500)).toBe(true);
+    expect(limiter.consume('1', 'play', 1000)).toBe(true);
+    expect(limiter.consume('1', 'play', 1000)).toBe(false);
+  });
+
+  test('take nothing if any bucket is empty', () => {
+    const limiter = new RateLimiter({ user: { burst: 2, refill: 1000 }, command: { burst: 1, refill: 1000 } });
+    expect(limiter.consume('1', 'play', 0)).toBe(true);
+    expect(limiter.consume('1', 'play', 0)).toBe(false);
+    expect(limiter.consume('1', 'stop', 0)).toBe(true);
+    expect(limiter.consume('1', 'skip', 0)).toBe(false);
+  });
+
+  test('limit the whole guild', () => {
+    const limiter = new RateLimiter({ guild: { burst: 1, refill: 1000 } });
+    expect(limiter.consume('1', 'play', 0)).toBe(true);
+    expect(limiter.consume('2', 'stop', 0)).toBe(false);
+  });
+
+  test('restore the counters', () => {
+    const options = { user: { burst: 1, refill: 1000 }, persist: true };
+    const limiter = new RateLimiter(options);
+    limiter.consume('1', 'play', 0);
+    limiter.consume('2', 'play', 0);
+    expect(limiter.toJSON(0)).toEqual({ 'user:1': [0, 0], 'user:2': [0, 0] });
+    const restored = new RateLimiter(options);
+    restored.load(JSON.parse(JSON.stringify(limiter.toJSON(0))) as BasicValue);
+    expect(restored.consume('1', 'play', 500)).toBe(false);
+    expect(restored.toJSON(1000)).toEqual({});
+  });
+
+  test('ignore invalid saved data', () => {
+    const limiter = new RateLimiter({ user: { burst: 1, refill: 1000 }, persist: true });
+    expect(() => limiter.load(JSON.parse('null') as BasicValue)).not.toThrow();
+    expect(() => limiter.load([])).not.toThrow();
+    expect(limiter.consume('1', 'play', 0)).toBe(true);
+  });
+
+  test('disabled without limits', () => {
+    const limiter = new RateLimiter();
+    expect(limiter.enabled).toBe(false);
+    expect(limiter.consume('1', 'play')).toBe(true);
+  });
+});
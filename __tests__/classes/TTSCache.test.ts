@@ -0,0 +1,118 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Readable } from 'node:stream';
+import { PassThrough } from 'node:stream';
+import { TTSCache } from '../../src/app/classes';
+import { sleep } from '../../src/app/utils';
+
+const request: TTSRequest = { voice: 'en-US', speed: 10, pitch: 10, text: 'Hello' };
+
+async function read(resource: Readable): Promise<string> {
+  let data = '';
+  for await (const chunk of resource) {
+    data += (chunk as Buffer).toString();
+  }
+  return data;
+}
+
+async function speak(
+  cache: TTSCache,
+  generate: (request: TTSRequest) => Promise<TTSResponse>,
+  request: TTSRequest,
+): Promise<string> {
+  const response = await generate(request);
+  const data = await read(response.resource);
+  await cache.flush();
+  return data;
+}
+
+function createGenerator(): jest.Mock<Promise<TTSResponse>, [TTSRequest]> {
+  return jest.fn(async (request: TTSRequest) => {
+    const resource = new PassThrough();
+    resource.end(`${request.voice}:${request.text}`);
+    return Promise.resolve({ ...request, resource });
+  });
+}
+
+describe('TTSCache', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'iwassistant-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('hit and miss', async () => {
+    const cache = new TTSCache('test', {}, dir);
+    await cache.setup();
+    const generator = createGenerator();
+    const generate = cache.wrap(generator);
+    expect(await speak(cache, generate, request)).toBe('en-US:Hello');
+    expect(await speak(cache, generate, request)).toBe('en-US:Hello');
+    expect(await speak(cache, generate, { ...request, speed: 11 })).toBe('en-US:Hello');
+    expect(generator).toHaveBeenCalledTimes(2);
+    expect(cache.stats).toEqual({ hits: 1, misses: 2, entries: 2, size: 22 });
+  });
+
+  test('persistence', async () => {
+    const prevCache = new TTSCache('test', {}, dir);
+    await prevCache.setup();
+    await speak(prevCache, prevCache.wrap(createGenerator()), request);
+    const cache = new TTSCache('test', {}, dir);
+    await cache.setup();
+    expect(cache.stats).toEqual({ hits: 0, misses: 0, entries: 1, size: 11 });
+    const generator = createGenerator();
+    expect(await speak(cache, cache.wrap(generator), request)).toBe('en-US:Hello');
+    expect(generator).not.toHaveBeenCalled();
+  });
+
+  test('normalized request', async () => {
+    const prevCache = new TTSCache('test', {}, dir);
+    await prevCache.setup();
+    const generator = jest.fn(async (request: TTSRequest) => {
+      const resource = new PassThrough();
+      resource.end(request.text);
+      return Promise.resolve({ ...request, voice: 'en-US-A', speed: 175, resource });
+    });
+    const normalized = { ...request, voice: 'en-US-A', speed: 175 };
+    const prevGenerate = prevCache.wrap(generator);
+    const response = await prevGenerate(request);
+    expect(response).toMatchObject(normalized);
+    await read(response.resource);
+    await prevCache.flush();
+    const hit = await prevGenerate(request);
+    expect(hit).toMatchObject(normalized);
+    expect(await read(hit.resource)).toBe('Hello');
+    const cache = new TTSCache('test', {}, dir);
+    await cache.setup();
+    const persisted = await cache.wrap(generator)(request);
+    expect(persisted).toMatchObject(normalized);
+    expect(await read(persisted.resource)).toBe('Hello');
+    expect(generator).toHaveBeenCalledTimes(1);
+  });
+
+  test('size limit', async () => {
+    const cache = new TTSCache('test', { size: 10 }, dir);
+    await cache.setup();
+    const generate = cache.wrap(createGenerator());
+    await speak(cache, generate, { ...request, text: 'a' });
+    await speak(cache, generate, { ...request, text: 'b' });
+    expect(cache.stats).toMatchObject({ entries: 1, size: 7 });
+  });
+
+  test('age limit', async () => {
+    const cache = new TTSCache('test', { age: 20 }, dir);
+    await cache.setup();
+    const generator = createGenerator();
+    const generate = cache.wrap(generator);
+    await speak(cache, generate, request);
+    await sleep(30);
+    await speak(cache, generate, request);
+    expect(generator).toHaveBeenCalledTimes(2);
+    expect(cache.stats).toMatchObject({ hits: 0, misses: 2 });
+  });
+});
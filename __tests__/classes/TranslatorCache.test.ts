@@ -0,0 +1,49 @@
+import { TranslatorCache } from '../../src/app/classes';
+import { sleep } from '../../src/app/utils';
+
+const request: TranslatorRequest = { text: 'Hello', from: 'en', to: 'ja' };
+
+function createTranslator(): jest.Mock<Promise<TranslatorResponse>, [TranslatorRequest]> {
+  return jest.fn(async (request: TranslatorRequest) => {
+    return Promise.resolve({ from: 'en', ...request, text: `${request.to}:${request.text}` });
+  });
+}
+
+describe('TranslatorCache', () => {
+  test('hit and miss', async () => {
+    const cache = new TranslatorCache('test');
+    const translator = createTranslator();
+    const translate = cache.wrap(translator);
+    expect(await translate(request)).toEqual({ text: 'ja:Hello', from: 'en', to: 'ja' });
+    expect(await translate(request)).toEqual({ text: 'ja:Hello', from: 'en', to: 'ja' });
+    expect(await translate({ ...request, to: 'zh-CN' })).toEqual({ text: 'zh-CN:Hello', from: 'en', to: 'zh-CN' });
+    expect(await translate({ text: 'Hello', to: 'ja' })).toEqual({ text: 'ja:Hello', from: 'en', to: 'ja' });
+    expect(translator).toHaveBeenCalledTimes(3);
+    expect(cache.stats).toEqual({ hits: 1, misses: 3, entries: 3 });
+  });
+
+  test('size limit', async () => {
+    const cache = new TranslatorCache('test', { size: 2 });
+    const translator = createTranslator();
+    const translate = cache.wrap(translator);
+    await translate({ ...request, text: 'a' });
+    await translate({ ...request, text: 'b' });
+    await translate({ ...request, text: 'a' });
+    await translate({ ...request, text: 'c' });
+    await translate({ ...request, text: 'a' });
+    await translate({ ...request, text: 'b' });
+    expect(translator).toHaveBeenCalledTimes(4);
+    expect(cache.stats).toEqual({ hits: 2, misses: 4, entries: 2 });
+  });
+
+  test('age limit', async () => {
+    const cache = new TranslatorCache('test', { age: 20 });
+    const translator = createTranslator();
+    const translate = cache.wrap(translator);
+    await translate(request);
+    await sleep(30);
+    await translate(request);
+    expect(translator).toHaveBeenCalledTimes(2);
+    expect(cache.stats).toMatchObject({ hits: 0, misses: 2 });
+  });
+});
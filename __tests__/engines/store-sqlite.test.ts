@@ -0,0 +1,52 @@
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { App } from '../../src/app/classes';
+import { type Config, engine } from '../../src/app/builtin/engines/store-sqlite';
+
+const StoreDir = join(__dirname, '../../tmp/store/');
+
+const id = `test-${process.pid}`;
+
+const app = { log: { info: jest.fn(), warn: jest.fn() } } as unknown as App;
+
+async function createStore(config: Partial<Config>): Promise<Omit<IStore, 'name'>> {
+  if (!('createStore' in engine)) throw new Error('Not a store engine');
+  return engine.createStore({ config: { ...engine.config, id, ...config }, app });
+}
+
+describe('store-sqlite', () => {
+  afterEach(() => {
+    for (const file of [`${id}.sqlite`, `${id}.sqlite-wal`, `${id}.sqlite-shm`, id]) {
+      rmSync(join(StoreDir, file), { recursive: true, force: true });
+    }
+  });
+
+  test('set and get', async () => {
+    const store = await createStore({});
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.set('a', { value: 1 })).toBe(true);
+    expect(await store.get('a')).toEqual({ value: 1 });
+    expect(await store.keys?.()).toEqual(['a']);
+    await store.destroy?.();
+    await expect(store.get('a')).rejects.toThrow('not open');
+  });
+
+  test('import once', async () => {
+    mkdirSync(join(StoreDir, id), { recursive: true });
+    writeFileSync(join(StoreDir, id, 'a.json'), '{"value":1}');
+    const store = await createStore({ import: id });
+    expect(await store.get('a')).toEqual({ value: 1 });
+    await store.set('a', { value: 2 });
+    await store.destroy?.();
+    const reopened = await createStore({ import: id });
+    expect(await reopened.get('a')).toEqual({ value: 2 });
+    await reopened.destroy?.();
+  });
+
+  test('missing directory to import', async () => {
+    const store = await createStore({ import: `${id}-missing` });
+    expect(await store.keys?.()).toEqual([]);
+    expect(app.log.warn).toHaveBeenCalledWith(expect.stringContaining('Missing directory to import'));
+    await store.destroy?.();
+  });
+});
@@ -0,0 +1,97 @@
+import { PassThrough } from 'node:stream';
+import type { App } from '../../src/app/classes';
+import { EventEmitter } from '../../src/app/classes';
+import { type Config, engine } from '../../src/app/builtin/engines/stt-local';
+
+const log = { debug: undefined, warn: jest.fn(), error: jest.fn() };
+const app = { log: { createChild: () => log } } as unknown as App;
+
+// print the arguments and results after the audio ends
+const script = `
+process.stdin.resume();
+process.stdin.on('end', () => {
+  console.log(process.argv.slice(1).join(' '));
+  console.log(JSON.stringify({ partial: 'hel' }));
+  console.log(JSON.stringify({ text: 'hello' }));
+});
+`;
+
+type Events = {
+  ready: [];
+  start: [request: STTRequest<'home'>];
+  end: [request: STTRequest<'home'>];
+  abort: [error?: unknown];
+  result: [transcript: string, isFinal: boolean];
+};
+
+class Audio extends EventEmitter<Events> implements RecognizableAudio<'home'> {
+  readonly type = 'home';
+  readonly resource = new PassThrough();
+  readonly results: string[] = [];
+  readonly transcript = '';
+  aborted = false;
+
+  abort(error?: unknown): void {
+    this.aborted = true;
+    this.emit('abort', error);
+  }
+}
+
+async function createSTT(config: Partial<Config>): Promise<Omit<ISpeechToText, 'name' | 'defaultVoices'>> {
+  if (!('createSTT' in engine)) throw new Error('Not an STT engine');
+  return engine.createSTT({ config: { ...engine.config, exec: process.execPath, ...config }, app });
+}
+
+describe('stt-local', () => {
+  test('voices', async () => {
+    const stt = await createSTT({ voices: { '/opt/vosk/model-ja': 'ja', model: 'en_US', unknown: 'xx' } });
+    expect(stt.locales).toEqual({
+      ja: { '/opt/vosk/model-ja': 'ja: model-ja: 日本語' },
+      'en-US': { model: 'en-US: model: English - United States' },
+    });
+    expect(log.warn).toHaveBeenCalledWith('Local STT: Undefined locale (unknown: xx)');
+  });
+
+  test('transcribe', async () => {
+    const stt = await createSTT({ args: ['-e', script, '${voice}', '${rate}', '${interim}'] });
+    const audio = new Audio();
+    const result = jest.fn();
+    audio.on('result', result);
+    const end = new Promise<void>((resolve) => audio.once('end', () => resolve()));
+    stt.transcribe({ voice: '', interim: false, audio });
+    audio.emit('ready');
+    audio.resource.end();
+    await end;
+    expect(audio.results).toEqual(['en-US 16000 0', 'hello']);
+    expect(result).not.toHaveBeenCalledWith('hel', false);
+    expect(audio.aborted).toBe(false);
+  });
+
+  test('abort when the recognizer exits before the audio ends', async () => {
+    const stt = await createSTT({ args: ['-e', 'process.exit(1)'] });
+    const audio = new Audio();
+    const abort = new Promise<unknown>((resolve) => audio.once('abort', resolve));
+    stt.transcribe({ voice: '', interim: false, audio });
+    audio.emit('ready');
+    expect(await abort).toEqual(new Error('Local STT: Exit code 1'));
+    expect(audio.aborted).toBe(true);
+    expect(log.warn).toHaveBeenCalledWith('Local STT: Exit code 1');
+  });
+
+  test('abort when the recognizer fails after the audio ends', async () => {
+    const stt = await createSTT({ args: ['-e', "process.stdin.resume().on('end', () => process.exit(1))"] });
+    const audio = new Audio();
+    const end = jest.fn();
+    audio.once('end', end);
+    const abort = new Promise<unknown>((resolve) => audio.once('abort', resolve));
+    stt.transcribe({ voice: '', interim: false, audio });
+    audio.emit('ready');
+    audio.resource.end();
+    expect(await abort).toEqual(new Error('Local STT: Exit code 1'));
+    expect(end).not.toHaveBeenCalled();
+  });
+
+  test('missing executable path', async () => {
+    await expect(createSTT({ exec: '' })).rejects.toThrow('Local STT: Missing executable path');
+  });
+});
@@ -0,0 +1,62 @@
+import type { Readable } from 'node:stream';
+import type { App } from '../../src/app/classes';
+import { type Config, engine } from '../../src/app/builtin/engines/tts-local';
+
+const app = { log: { warn: jest.fn() } } as unknown as App;
+const request: TTSRequest = { voice: '', speed: 10, pitch: 10, text: 'Hello' };
+
+// espeak-ng `--voices` format
+const voices = `
+console.log('Pty Language       Age/Gender VoiceName          File                 Other Languages');
+console.log(' 5  en-us           --/M      English_(America)  gmw/en-US');
+console.log(' 5  pt_BR           --/M      Portuguese_(Brazil) roa/pt-BR');
+`;
+
+async function createTTS(config: Partial<Config>): Promise<Omit<ITextToSpeech, 'name' | 'defaultVoices'>> {
+  if (!('createTTS' in engine)) throw new Error('Not a TTS engine');
+  return engine.createTTS({ config: { ...engine.config, exec: process.execPath, ...config }, app });
+}
+
+async function read(resource: Readable): Promise<string> {
+  let data = '';
+  for await (const chunk of resource) {
+    data += (chunk as Buffer).toString();
+  }
+  return data;
+}
+
+describe('tts-local', () => {
+  test('list voices', async () => {
+    const tts = await createTTS({ list: ['-e', voices] });
+    expect(tts.locales).toEqual({
+      'en-US': { 'en-us': 'en-US: English (America): English - United States' },
+      'pt-BR': { pt_BR: 'pt-BR: Portuguese (Brazil): Portuguese - Brazil' },
+    });
+  });
+
+  test('configured voices', async () => {
+    const tts = await createTTS({ voices: { '/opt/piper/en_US-lessac.onnx': 'en_US' } });
+    expect(tts.locales).toEqual({
+      'en-US': { '/opt/piper/en_US-lessac.onnx': 'en-US: en_US-lessac.onnx: English - United States' },
+    });
+  });
+
+  test('generate audio', async () => {
+    const tts = await createTTS({ voices: { voice: 'en-US' }, args: ['-e', 'process.stdin.pipe(process.stdout)'] });
+    const response = await tts.generate(request);
+    expect(response).toMatchObject({ voice: 'voice', speed: 175, pitch: 50, text: 'Hello' });
+    expect(await read(response.resource)).toBe('Hello');
+  });
+
+  test('fail before output', async () => {
+    const tts = await createTTS({ voices: { voice: 'en-US' }, args: ['-e', 'process.exit(2)'] });
+    await expect(tts.generate(request)).rejects.toThrow('Local TTS: 2');
+  });
+
+  test('fail after output', async () => {
+    const script = "process.stdout.write('Hello', () => setTimeout(() => process.exit(1), 100))";
+    const tts = await createTTS({ voices: { voice: 'en-US' }, args: ['-e', script] });
+    const response = await tts.generate(request);
+    await expect(read(response.resource)).rejects.toThrow('Local TTS: 1');
+  });
+});
@@ -0,0 +1,20 @@
+import { downsamplePCM } from '../../src/app/utils';
+
+function toPCM(samples: number[]): Buffer {
+  const pcm = Buffer.alloc(samples.length * 2);
+  for (const [i, sample] of samples.entries()) {
+    pcm.writeInt16LE(sample, i * 2);
+  }
+  return pcm;
+}
+
+describe('downsamplePCM', () => {
+  test('average samples', () => {
+    expect(downsamplePCM(toPCM([0, 300, 600, -100, -200, -300, 7]), 3)).toEqual(toPCM([300, -200]));
+  });
+
+  test('same rate', () => {
+    const pcm = toPCM([1, 2, 3]);
+    expect(downsamplePCM(pcm, 1)).toBe(pcm);
+  });
+});
@@ -0,0 +1,14 @@
+import { editDistance } from '../../src/app/utils';
+
+describe('editDistance', () => {
+  test('count edits', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('', 'abc')).toBe(3);
+    expect(editDistance('abc', 'abc')).toBe(0);
+  });
+
+  test('code points', () => {
+    expect(editDistance('いわし', 'いわさ')).toBe(1);
+    expect(editDistance('😀', '😁')).toBe(1);
+  });
+});
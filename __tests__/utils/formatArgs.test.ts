@@ -0,0 +1,8 @@
+import { formatArgs } from '../../src/app/utils';
+
+test('formatArgs', () => {
+  const params = { voice: 'en-US', speed: 1.5, interim: 0 };
+  expect(formatArgs(['-v', '${voice}', '-s${speed}', '${interim}'], params)).toEqual(['-v', 'en-US', '-s1.5', '0']);
+  expect(formatArgs(['${voice}:${voice}', '${unknown}', '$voice'], params)).toEqual(['en-US:en-US', '', '$voice']);
+  expect(formatArgs([], params)).toEqual([]);
+});
@@ -0,0 +1,13 @@
+import { normalizeSpeech } from '../../src/app/utils';
+
+describe('normalizeSpeech', () => {
+  test('kana', () => {
+    expect(normalizeSpeech('イワシ、')).toBe('いわし');
+    expect(normalizeSpeech('ｲﾜｼ')).toBe('いわし');
+  });
+
+  test('latin', () => {
+    expect(normalizeSpeech('Hey, Iwashi!')).toBe('heyiwashi');
+    expect(normalizeSpeech('ＰＬＡＹ　ｍｕｓｉｃ')).toBe('playmusic');
+  });
+});
@@ -0,0 +1,29 @@
+import { parseDuration } from '../../src/app/utils';
+
+describe('parseDuration', () => {
+  test('seconds', () => {
+    expect(parseDuration('90')).toBe(90_000);
+    expect(parseDuration('1.5')).toBe(1500);
+    expect(parseDuration('９０')).toBe(90_000);
+  });
+
+  test('clock format', () => {
+    expect(parseDuration('1:30')).toBe(90_000);
+    expect(parseDuration('1:02:03')).toBe(3_723_000);
+  });
+
+  test('units', () => {
+    expect(parseDuration('1h 30m')).toBe(5_400_000);
+    expect(parseDuration('1 hour and 30 minutes')).toBe(5_400_000);
+    expect(parseDuration('45 sec')).toBe(45_000);
+    expect(parseDuration('1時間30分')).toBe(5_400_000);
+    expect(parseDuration('3分钟')).toBe(180_000);
+  });
+
+  test('invalid', () => {
+    expect(parseDuration('')).toBeUndefined();
+    expect(parseDuration('soon')).toBeUndefined();
+    expect(parseDuration('5 apples')).toBeUndefined();
+    expect(parseDuration('3 months')).toBeUndefined();
+  });
+});
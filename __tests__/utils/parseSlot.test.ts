@@ -0,0 +1,36 @@
+import { parseSlot } from '../../src/app/utils';
+
+describe('parseSlot', () => {
+  test('string', () => {
+    expect(parseSlot('string', ' abc ')).toBe(' abc ');
+  });
+
+  test('number', () => {
+    expect(parseSlot('number', '1,000')).toBe(1000);
+    expect(parseSlot('number', '-0.5')).toBe(-0.5);
+    expect(parseSlot('number', '')).toBeUndefined();
+    expect(parseSlot('number', 'ten')).toBeUndefined();
+  });
+
+  test('duration', () => {
+    expect(parseSlot('duration', '2m')).toBe(120_000);
+    expect(parseSlot('duration', 'later')).toBeUndefined();
+  });
+
+  test('language', () => {
+    expect(parseSlot('language', 'ja')).toBe('ja');
+    expect(parseSlot('language', 'zh-tw')).toBe('zh-TW');
+    expect(parseSlot('language', 'Japanese')).toBe('ja');
+    expect(parseSlot('language', 'xx')).toBeUndefined();
+  });
+
+  test('choices', () => {
+    expect(parseSlot(['on', 'off'], 'ON')).toBe('on');
+    expect(parseSlot(['on', 'off'], 'maybe')).toBeUndefined();
+  });
+
+  test('guild only', () => {
+    expect(parseSlot('member', '<@1>')).toBeUndefined();
+    expect(parseSlot('channel', '<#1>')).toBeUndefined();
+  });
+});
@@ -0,0 +1,37 @@
+import { protectTerms } from '../../src/app/utils';
+
+const glossary: TranslatorGlossary = {
+  iwassistant: { ja: 'イワシスタント' },
+  'Discord bot': {},
+  bot: { ja: 'ボット' },
+};
+
+describe('protectTerms', () => {
+  test('protect and substitute terms', () => {
+    const [text, restore] = protectTerms('IWAssistant is a Discord bot, not a robot.', glossary, 'ja');
+    expect(text).toBe('{{0}} is a {{1}}, not a robot.');
+    expect(restore('{{0}}は{{1}}です')).toBe('イワシスタントはDiscord botです');
+  });
+
+  test('restore placeholders with spaces', () => {
+    const [, restore] = protectTerms('bot', glossary, 'ja');
+    expect(restore('{{ 0 }}')).toBe('ボット');
+  });
+
+  test('keep unknown placeholders', () => {
+    const [, restore] = protectTerms('bot', glossary, 'en');
+    expect(restore('{{0}} {{1}} <::0>')).toBe('bot {{1}} <::0>');
+  });
+
+  test('keep custom emoji placeholders', () => {
+    const [text, restore] = protectTerms('<::123456789012345678> bot', glossary, 'ja');
+    expect(text).toBe('<::123456789012345678> {{0}}');
+    expect(restore('<::123456789012345678> {{0}}')).toBe('<::123456789012345678> ボット');
+  });
+
+  test('no terms', () => {
+    const [text, restore] = protectTerms('Hello', glossary, 'ja');
+    expect(text).toBe('Hello');
+    expect(restore('{{0}}')).toBe('{{0}}');
+  });
+});
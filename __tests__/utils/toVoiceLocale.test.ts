@@ -0,0 +1,17 @@
+import { toVoiceLocale } from '../../src/app/utils';
+
+test('toVoiceLocale', () => {
+  expect(toVoiceLocale('en')).toBe('en');
+  expect(toVoiceLocale('en-us')).toBe('en-US');
+  expect(toVoiceLocale('en_US')).toBe('en-US');
+  expect(toVoiceLocale('en_US_lessac')).toBe('en-US');
+  expect(toVoiceLocale('ja-xx')).toBe('ja');
+  expect(toVoiceLocale('EN-us')).toBe('en-US');
+  expect(toVoiceLocale('JA')).toBe('ja');
+  expect(toVoiceLocale('JA-xx')).toBe('ja');
+  expect(toVoiceLocale('cmn')).toBe('zh-CN');
+  expect(toVoiceLocale('cmn-latn-pinyin')).toBe('zh-CN');
+  expect(toVoiceLocale('yue')).toBe('zh-HK');
+  expect(toVoiceLocale('xx')).toBeUndefined();
+  expect(toVoiceLocale('')).toBeUndefined();
+});
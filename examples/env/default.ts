@@ -12,9 +12,12 @@ export const env: Env = {
     'tts-google-translate': true,
     // 'stt-google-chrome': true,
     // 'store-firestore': true,
+    // 'store-sqlite': true,
     // 'translator-google-cloud': true,
     // 'tts-google-cloud': true,
+    // 'tts-local': true,
     // 'stt-google-cloud': true,
+    // 'stt-local': true,
   },
   plugins: {
     'guild-announce': true,
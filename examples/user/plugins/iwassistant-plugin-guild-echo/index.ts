@@ -9,6 +9,7 @@ export type Options = {
     guild: {
       startedAt: string; // saved in 60s
       _count: number; // saved when the app halted
+      _voiceCount: number; // added in version 2
     };
   };
 };
@@ -16,10 +17,21 @@ export type Options = {
 export const plugin: IPlugin<Options> = {
   name: 'guild-echo',
   description: 'Discord text/voice message echo',
+  // Discord events handled in the setup functions, scanned from the source code if omitted
+  events: { guild: ['messageCreate'] },
   config: {
     prefix: 'OK ',
     wait: 1000,
   },
+  schema: {
+    guild: {
+      version: 2,
+      migrations: {
+        // data saved before the schema is regarded as version 1, so keep the existing values
+        2: (data) => ({ ...data, _count: data['_count'] ?? 0, _voiceCount: data['_voiceCount'] ?? 0 }),
+      },
+    },
+  },
   setupApp() {
     return {
       beforeGuildAssistantSetup(_, optionsList) {
@@ -39,6 +51,7 @@ export const plugin: IPlugin<Options> = {
   setupGuild({ config, data, assistant }) {
     const log = assistant.log.createChild('ECHO');
     let count = data._count ?? 0;
+    let voiceCount = data._voiceCount ?? 0;
     data.startedAt = formatDate();
     return {
       async onMessageCreate(message) {
@@ -60,7 +73,8 @@ export const plugin: IPlugin<Options> = {
           await sleep(config.wait);
           assistant.speak(text);
           data._count = ++count;
-          log.info(`Voice(${count}): ${text}`);
+          data._voiceCount = ++voiceCount;
+          log.info(`Voice(${voiceCount}/${count}): ${text}`);
         });
       },
     };
@@ -33,6 +33,10 @@ export const engine: IEngine<Config> = {
         await store.doc(`${config.id}/${key}`).set(value);
         return true;
       },
+      async keys() {
+        const docs = await store.collection(config.id).listDocuments();
+        return docs.map((doc) => doc.id);
+      },
     };
   },
 };
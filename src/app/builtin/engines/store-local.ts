@@ -1,4 +1,4 @@
-import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 
 export type Config = {
@@ -36,6 +36,10 @@ export const engine: IEngine<Config> = {
         delete lock[key];
         return true;
       },
+      async keys() {
+        const files = await readdir(dir);
+        return files.filter((file) => file.endsWith('.json')).map((file) => file.slice(0, -5));
+      },
     };
   },
 };
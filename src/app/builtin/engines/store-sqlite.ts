@@ -0,0 +1,89 @@
+import Database from 'better-sqlite3';
+import { mkdir, readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+const StoreDir = join(__dirname, '../../../../tmp/store/');
+
+export type Config = {
+  /**
+   * Database file name to store, `tmp/store/<id>.sqlite`
+   * @default "1"
+   */
+  id: string;
+  /**
+   * Sub directory name of `store-local` to import once, e.g. "1" for `tmp/store/1/*.json`
+   * @default ""
+   */
+  import: string;
+};
+
+export const engine: IEngine<Config> = {
+  name: 'store-sqlite',
+  description: 'Local SQLite store',
+  config: {
+    id: '1',
+    import: '',
+  },
+  async createStore({ config, app }) {
+    await mkdir(StoreDir, { recursive: true });
+    const db = new Database(join(StoreDir, `${config.id}.sqlite`));
+    db.pragma('journal_mode = WAL'); // a write is atomic and survives crashes
+    db.pragma('synchronous = FULL');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS store (key TEXT PRIMARY KEY, value TEXT NOT NULL, updated INTEGER NOT NULL);
+      CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+    `);
+    const select = db.prepare<[string], { value: string }>('SELECT value FROM store WHERE key = ?');
+    const selectKeys = db.prepare<[], { key: string }>('SELECT key FROM store ORDER BY key');
+    const upsert = db.prepare<[string, string, number]>(
+      'INSERT INTO store (key, value, updated) VALUES (?, ?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated = excluded.updated',
+    );
+    if (config.import) {
+      const metaKey = `import:${config.import}`;
+      const imported = db.prepare<[string], { value: string }>('SELECT value FROM meta WHERE key = ?').get(metaKey);
+      if (!imported) {
+        const dir = join(StoreDir, config.import);
+        const entries: [key: string, value: string][] = [];
+        const files = await readdir(dir).catch((error: NodeJS.ErrnoException) => {
+          if (error.code !== 'ENOENT') throw error;
+          app.log.warn(`SQLite Store: Missing directory to import ${dir}`);
+          return [];
+        });
+        for (const file of files) {
+          if (!file.endsWith('.json')) continue;
+          const json = await readFile(join(dir, file), 'utf8');
+          entries.push([file.slice(0, -5), JSON.stringify(JSON.parse(json))]);
+        }
+        const insert = db.prepare<[string, string, number]>(
+          'INSERT INTO store (key, value, updated) VALUES (?, ?, ?) ON CONFLICT (key) DO NOTHING',
+        );
+        const count = db.transaction(() => {
+          let count = 0;
+          for (const [key, value] of entries) {
+            count += insert.run(key, value, Date.now()).changes;
+          }
+          db.prepare('INSERT INTO meta (key, value) VALUES (?, ?)').run(metaKey, new Date().toISOString());
+          return count;
+        })();
+        app.log.info(`SQLite Store: Imported ${count}/${entries.length} from ${dir}`);
+      }
+    }
+    return {
+      async get(key) {
+        const row = select.get(key);
+        return Promise.resolve(row ? (JSON.parse(row.value) as BasicObject) : undefined);
+      },
+      async set(key, value) {
+        upsert.run(key, JSON.stringify(value), Date.now());
+        return Promise.resolve(true);
+      },
+      async keys() {
+        return Promise.resolve(selectKeys.all().map(({ key }) => key));
+      },
+      async destroy() {
+        db.close();
+        return Promise.resolve();
+      },
+    };
+  },
+};
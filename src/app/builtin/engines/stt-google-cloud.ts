@@ -261,7 +261,11 @@ export const engine: IEngine<Config> = {
       audio.once('abort', onAbort);
       audio.resource.once('close', () => recognizer.end());
       audio.resource.on('data', (chunk: Buffer) => recognizer.write(decoder[audio.type](chunk)));
-      recognizer.on('error', log.error);
+      let failure: unknown;
+      recognizer.on('error', (error) => {
+        failure = error;
+        log.error(error);
+      });
       recognizer.once('end', () => recognizer.destroy());
       recognizer.once('close', () => {
         if (audio.aborted) return;
@@ -270,7 +274,7 @@ export const engine: IEngine<Config> = {
           log.debug?.(`[${counter}] Close`);
         } else {
           audio.off('abort', onAbort);
-          audio.abort();
+          audio.abort(failure);
           log.debug?.(`[${counter}] Close and abort`);
         }
       });
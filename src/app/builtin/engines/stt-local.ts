@@ -0,0 +1,157 @@
+import { OpusEncoder } from '@discordjs/opus';
+import { spawn } from 'node:child_process';
+import { createInterface } from 'node:readline';
+import { Locales } from '../../enums';
+import { downsamplePCM, formatArgs, isObject, toVoiceLocale } from '../../utils';
+
+const InputSampleRate = 48_000;
+
+function parseLine(line: string): { transcript: string; isFinal: boolean } | undefined {
+  if (line.startsWith('{')) {
+    let data: { text?: unknown; partial?: unknown } | undefined;
+    try {
+      data = JSON.parse(line) as typeof data;
+    } catch {
+      return undefined;
+    }
+    if (!isObject(data)) return undefined;
+    if (typeof data.text === 'string') return { transcript: data.text.trim(), isFinal: true };
+    if (typeof data.partial === 'string') return { transcript: data.partial.trim(), isFinal: false };
+    return undefined;
+  }
+  return { transcript: line.trim(), isFinal: true };
+}
+
+class AudioDecoder implements Record<AssistantType, (chunk: Buffer) => Buffer> {
+  readonly #opus = new OpusEncoder(InputSampleRate, 1);
+  readonly #ratio: number;
+
+  constructor(sampleRate: number) {
+    if (InputSampleRate % sampleRate !== 0) throw new Error(`Local STT: Unsupported sample rate (${sampleRate})`);
+    this.#ratio = InputSampleRate / sampleRate;
+  }
+
+  guild = (chunk: Buffer): Buffer => {
+    return downsamplePCM(this.#opus.decode(chunk), this.#ratio);
+  };
+
+  // just mock for now
+  home = (): Buffer => {
+    return Buffer.from([]);
+  };
+}
+
+export type Config = {
+  /**
+   * Executable path of the recognizer, e.g. a whisper.cpp or vosk wrapper script
+   *
+   * The process reads raw PCM (signed 16-bit little-endian, mono) from stdin until it's closed,
+   * and writes a transcript per line to stdout, either plain text as final results
+   * or vosk style JSON `{"partial": "..."}` / `{"text": "..."}`
+   */
+  exec: string;
+  /**
+   * Arguments of the recognizer
+   *
+   * Placeholders: `${voice}`, `${rate}`, `${interim}` ("1" or "0")
+   * @default ["${voice}"]
+   */
+  args: string[];
+  /**
+   * Voice id and locale pairs, the id is passed to the recognizer as `${voice}`
+   * @default { "en-US": "en-US" }
+   * @example { "/opt/vosk/vosk-model-small-ja-0.22": "ja" }
+   */
+  voices: Record<string, string>;
+  /**
+   * Sample rate of PCM input, a divisor of 48000
+   * @default 16_000
+   */
+  sampleRate: number;
+};
+
+export const engine: IEngine<Config> = {
+  name: 'stt-local',
+  description: 'Local recognizer STT',
+  config: {
+    exec: '',
+    args: ['${voice}'],
+    voices: { 'en-US': 'en-US' },
+    sampleRate: 16_000,
+  },
+  createSTT({ config, app }) {
+    if (!config.exec) throw new Error('Local STT: Missing executable path');
+    let counter = 0;
+    const log = app.log.createChild('STT');
+    const decoder = new AudioDecoder(config.sampleRate);
+    const locales: VoiceLocales = {};
+    for (const [voice, code] of Object.entries(config.voices)) {
+      const locale = toVoiceLocale(code);
+      if (!locale) {
+        log.warn(`Local STT: Undefined locale (${voice}: ${code})`);
+        continue;
+      }
+      const voices = locales[locale] ?? {};
+      voices[voice] = `${locale}: ${voice.split(/[/\\]/).at(-1) ?? voice}: ${Locales[locale]}`;
+      locales[locale] = voices;
+    }
+    const defaultVoice = Object.keys(Object.values(locales)[0] ?? {})[0] ?? '';
+    const transcribe = (request: STTRequest): void => {
+      const id = ++counter;
+      log.debug?.(`[${id}] Request`);
+      const params = {
+        voice: request.voice || defaultVoice,
+        rate: config.sampleRate,
+        interim: request.interim ? 1 : 0,
+      };
+      const recognizer = spawn(config.exec, formatArgs(config.args, params), { stdio: ['pipe', 'pipe', 'pipe'] });
+      const audio = request.audio;
+      const onAbort = (): void => void recognizer.kill();
+      if (log.debug) audio.once('abort', () => log.debug?.(`[${id}] Abort`));
+      audio.emit('start', request);
+      audio.once('abort', onAbort);
+      audio.resource.once('close', () => recognizer.stdin.end());
+      audio.resource.on('data', (chunk: Buffer) => {
+        if (recognizer.stdin.writable) recognizer.stdin.write(decoder[audio.type](chunk));
+      });
+      let failure: unknown;
+      recognizer.on('error', (error) => {
+        failure = error;
+        log.error(error);
+      });
+      recognizer.stdin.on('error', () => {}); // the process might exit before the audio ends
+      recognizer.stderr.on('data', (chunk: Buffer) => log.debug?.(`[${id}] ${chunk.toString().trim()}`));
+      recognizer.once('close', (code) => {
+        if (code) {
+          failure ??= new Error(`Local STT: Exit code ${code}`);
+          log.warn(`Local STT: Exit code ${code}`);
+        }
+        if (audio.aborted) return;
+        if (audio.resource.closed && failure === undefined) {
+          audio.emit('end', request);
+          log.debug?.(`[${id}] Close`);
+        } else {
+          audio.off('abort', onAbort);
+          audio.abort(failure);
+          log.debug?.(`[${id}] Close and abort`);
+        }
+      });
+      createInterface({ input: recognizer.stdout }).on('line', (line) => {
+        const result = parseLine(line);
+        if (!result || result.transcript.length === 0) return;
+        if (!result.isFinal && !request.interim) return;
+        audio.emit('result', result.transcript, result.isFinal);
+        if (result.isFinal) audio.results.push(result.transcript);
+        log.debug?.(`[${id}] ${result.isFinal ? 'Final' : 'Interim'}: ${result.transcript}`);
+      });
+    };
+    return {
+      active: true,
+      locales,
+      transcribe: (request) => {
+        request.audio.once('ready', () => transcribe(request));
+        return true;
+      },
+    };
+  },
+};
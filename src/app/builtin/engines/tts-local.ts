@@ -0,0 +1,143 @@
+import { spawn } from 'node:child_process';
+import { PassThrough, type Readable } from 'node:stream';
+import { Locales } from '../../enums';
+import { formatArgs, toVoiceLocale } from '../../utils';
+
+function scale(value: number, [min, standard, max]: [number, number, number]): number {
+  if (value < 0 || value > 20) value = 10;
+  const scaled = value < 10 ? min + ((standard - min) * value) / 10 : standard + ((max - standard) * (value - 10)) / 10;
+  return Math.round(scaled * 100) / 100;
+}
+
+function label(locale: Locale, name: string): string {
+  return `${locale}: ${name}: ${Locales[locale]}`;
+}
+
+async function execute(exec: string, args: string[], input = ''): Promise<Readable> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(exec, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    const output = new PassThrough();
+    const stderr: Buffer[] = [];
+    let started = false;
+    const start = (): void => {
+      started = true;
+      resolve(output);
+    };
+    const fail = (error: Error): void => {
+      if (started) output.destroy(error); // the output is already returned
+      else reject(error);
+    };
+    child.once('error', fail);
+    child.once('close', (code) => {
+      if (code !== 0) return fail(new Error(`Local TTS: ${code ?? '-'} ${Buffer.concat(stderr).toString().trim()}`));
+      output.end();
+      start();
+    });
+    child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    child.stdin.on('error', () => {}); // the process might exit without reading input
+    child.stdout.pipe(output, { end: false });
+    child.stdout.once('data', start);
+    child.stdin.end(input);
+  });
+}
+
+async function listVoices(exec: string, args: string[]): Promise<VoiceLocales> {
+  const stdout = await execute(exec, args);
+  let output = '';
+  for await (const chunk of stdout) {
+    output += (chunk as Buffer).toString();
+  }
+  // espeak-ng style: Pty Language Age/Gender VoiceName File Other Languages
+  const locales: VoiceLocales = {};
+  for (const line of output.split('\n').slice(1)) {
+    const [, code, , name] = line.trim().split(/\s+/);
+    if (!code || !name) continue;
+    const locale = toVoiceLocale(code);
+    if (!locale) continue;
+    const voices = locales[locale] ?? {};
+    voices[code] = label(locale, name.replaceAll('_', ' '));
+    locales[locale] = voices;
+  }
+  return locales;
+}
+
+export type Config = {
+  /**
+   * Executable path of the synthesizer, e.g. espeak-ng, piper
+   * @default "espeak-ng"
+   */
+  exec: string;
+  /**
+   * Arguments to synthesize, text is passed via stdin and audio is read from stdout
+   *
+   * Placeholders: `${voice}`, `${speed}`, `${pitch}`
+   * @default ["-v", "${voice}", "-s", "${speed}", "-p", "${pitch}", "--stdin", "--stdout"]
+   * @example ["--model", "${voice}", "--length_scale", "${speed}", "--output_file", "-"] // piper
+   */
+  args: string[];
+  /**
+   * Arguments to list installed voices, espeak-ng `--voices` format
+   * @default ["--voices"]
+   */
+  list: string[];
+  /**
+   * Voice id and locale pairs, used instead of listing voices when it's not empty
+   * @default {}
+   * @example { "/opt/piper/en_US-lessac-medium.onnx": "en-US" } // piper
+   */
+  voices: Record<string, string>;
+  /**
+   * Speed argument range for 0, 10 and 20
+   * @default [80, 175, 450]
+   * @example [2, 1, 0.5] // piper
+   */
+  speed: [min: number, standard: number, max: number];
+  /**
+   * Pitch argument range for 0, 10 and 20
+   * @default [0, 50, 99]
+   */
+  pitch: [min: number, standard: number, max: number];
+};
+
+export const engine: IEngine<Config> = {
+  name: 'tts-local',
+  description: 'Local synthesizer TTS',
+  config: {
+    exec: 'espeak-ng',
+    args: ['-v', '${voice}', '-s', '${speed}', '-p', '${pitch}', '--stdin', '--stdout'],
+    list: ['--voices'],
+    voices: {},
+    speed: [80, 175, 450],
+    pitch: [0, 50, 99],
+  },
+  async createTTS({ config, app }) {
+    let locales: VoiceLocales = {};
+    const entries = Object.entries(config.voices);
+    if (entries.length > 0) {
+      for (const [voice, code] of entries) {
+        const locale = toVoiceLocale(code);
+        if (!locale) {
+          app.log.warn(`Local TTS: Undefined locale (${voice}: ${code})`);
+          continue;
+        }
+        const voices = locales[locale] ?? {};
+        voices[voice] = label(locale, voice.split(/[/\\]/).at(-1) ?? voice);
+        locales[locale] = voices;
+      }
+    } else {
+      locales = await listVoices(config.exec, config.list);
+    }
+    const defaultVoice = Object.keys(Object.values(locales)[0] ?? {})[0] ?? '';
+    return {
+      active: true,
+      locales,
+      async generate({ voice, speed, pitch, text }) {
+        if (!voice) voice = defaultVoice;
+        speed = scale(speed, config.speed);
+        pitch = scale(pitch, config.pitch);
+        const resource = await execute(config.exec, formatArgs(config.args, { voice, speed, pitch }), text);
+        return { voice, speed, pitch, text, resource };
+      },
+    };
+  },
+};
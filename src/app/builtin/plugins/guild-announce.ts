@@ -12,6 +12,7 @@ export type Options = {
 export const plugin: IPlugin<Options> = {
   name: 'guild-announce',
   description: 'Discord voice channel announcements',
+  events: { guild: ['voiceStateUpdate'] },
   i18n: {
     en: {
       dict: {
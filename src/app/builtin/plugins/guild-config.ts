@@ -1,17 +1,20 @@
-import type {
-  AnySelectMenuInteraction,
-  Collection,
-  GuildBasedChannel,
-  GuildMember,
-  TextChannel,
-  VoiceChannel,
+import type { Collection, GuildBasedChannel, GuildMember, Message, TextChannel, VoiceChannel } from 'discord.js';
+import {
+  ActionRowBuilder,
+  ChannelType,
+  EmbedBuilder,
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+  channelMention,
+  roleMention,
+  userMention,
 } from 'discord.js';
-import { ChannelType, EmbedBuilder } from 'discord.js';
-import type { GuildAssistant } from '../../classes';
+import type { AttachedCommand, GuildAssistant } from '../../classes';
 import { Locales, TranslationLanguages } from '../../enums';
 import { configure, isLocale, isTranslationLanguage, toLanguage, toTranslationLanguage } from '../../utils';
 
-const ReloadCache = new Map<string, { locale: Locale; interaction: AnySelectMenuInteraction }>();
+const ReloadCache = new Map<string, { locale: Locale; message: Message }>();
 
 const LocalLangCache = new Map<string, { timer: NodeJS.Timeout | undefined; data: Record<string, string> }>();
 
@@ -74,6 +77,24 @@ function createTextChannelOptions(
     .map((c) => ({ value: c.id, label: `♯ ${c.name}` }));
 }
 
+function createToggleOptions(items: { id: string; label: string }[], selected: string[]): SelectOption[] {
+  return items.map(({ id, label }) => ({ value: id, label: `${selected.includes(id) ? '✅' : '⬜'} ${label}` }));
+}
+
+function createWordModal(id: string, label: string, value: string | undefined): ModalBuilder {
+  const input = new TextInputBuilder()
+    .setCustomId('word')
+    .setLabel(label)
+    .setStyle(TextInputStyle.Short)
+    .setMaxLength(32)
+    .setRequired(true);
+  if (value) input.setValue(value);
+  return new ModalBuilder()
+    .setCustomId(id)
+    .setTitle(label)
+    .setComponents(new ActionRowBuilder<TextInputBuilder>().setComponents(input));
+}
+
 function createVoiceOptions(engines: Map<string, { locales: VoiceLocales }>): SelectOption[] {
   const multi = engines.size > 1;
   const options: SelectOption[] = [];
@@ -109,10 +130,30 @@ function hasPermissions(
   return member.permissions.has(permissions);
 }
 
+function isAllowed(rule: CommandRule, member: GuildMember, channelId: string): boolean {
+  if (rule.channels.length > 0 && !rule.channels.includes(channelId)) return false;
+  if (rule.roles.length === 0 && rule.users.length === 0) return true;
+  if (member.permissions.has('Administrator')) return true; // not to be locked out
+  return rule.users.includes(member.id) || rule.roles.some((id) => member.roles.cache.has(id));
+}
+
+function removeFromRules(data: Partial<Options['data']['guild']>, key: keyof CommandRule, id: string): void {
+  const commands = data.commands;
+  if (!commands) return;
+  let changed = false;
+  for (const [commandId, rule] of Object.entries(commands)) {
+    if (!rule[key].includes(id)) continue;
+    rule[key] = rule[key].filter((v) => v !== id);
+    if (rule.roles.length === 0 && rule.users.length === 0 && rule.channels.length === 0) delete commands[commandId];
+    changed = true;
+  }
+  if (changed) data.commands = commands;
+}
+
 // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
 function configureGuild(
   context: ConfigureContext,
-  options: { locale: Locale; input?: { key: 'locale' | 'voice'; value: string } },
+  options: { locale: Locale; input?: { key: 'locale' | 'voice' | 'activation'; value: string } },
 ) {
   const { dict, data, assistant } = context;
   const { locale, input } = options;
@@ -132,10 +173,20 @@ function configureGuild(
         name: subDict.get('defaultVoice'),
         options: voiceOptions,
       },
+      activation: {
+        id: `${path}/activation`,
+        name: subDict.get('activationWord'),
+        options: [
+          { value: 'default', label: subDict.get('defaultWord') },
+          { value: 'custom', label: `✏️ ${subDict.get('customWord')}` },
+        ],
+        summary: data.activationWord ?? subDict.get('defaultWord'),
+      },
     },
     data: {
       locale: data.guildLocale ?? assistant.locale,
       voice: selectVoiceOptionValue(voiceOptions, data.defaultTTS ?? assistant.defaultTTS),
+      activation: '', // to select the custom word again
     },
     input,
   });
@@ -203,8 +254,14 @@ function configureVoiceChannels(
     fields: {
       dictation: {
         id: `${path}/dictation`,
-        name: subDict.get('dictation'),
-        options: createSwitchOptions(),
+        name: subDict.get('sttMode'),
+        // in one field since a message can have only 5 rows
+        options: [
+          { value: 'off', label: 'OFF' },
+          { value: 'on', label: subDict.get('dictation') },
+          { value: 'free', label: subDict.get('freeCommand') },
+          { value: 'both', label: `${subDict.get('dictation')} + ${subDict.get('freeCommand')}` },
+        ],
       },
       stt: {
         id: `${path}/stt`,
@@ -228,7 +285,13 @@ function configureVoiceChannels(
       },
     },
     data: {
-      dictation: savedData?.dictation ? 'on' : 'off',
+      dictation: savedData?.dictation
+        ? savedData.freeCommand
+          ? 'both'
+          : 'on'
+        : savedData?.freeCommand
+        ? 'free'
+        : 'off',
       stt: selectVoiceOptionValue(voiceOptions, savedData?.stt ?? assistant.defaultSTT),
       output: savedData?.output ?? 'self',
       input: savedData?.input ?? 'joined',
@@ -286,6 +349,74 @@ function configureUsers(
   });
 }
 
+// eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+function configureCommands(
+  context: ConfigureContext,
+  options: {
+    locale: Locale;
+    member: GuildMember;
+    command: AttachedCommand | undefined;
+    input?: { key: 'command' | 'roles' | 'users' | 'channels'; value: string };
+  },
+) {
+  const { dict, data, assistant } = context;
+  const { locale, member, command, input } = options;
+  const path = `guild-config/${assistant.guild.client.user.id}/${locale}/${assistant.guild.id}/commands/${
+    command?.id ?? '-'
+  }`;
+  const subDict = dict.sub(locale);
+  const rule = (command && data.commands?.[command.id]) ?? { roles: [], users: [], channels: [] };
+  const roles = assistant.guild.roles.cache
+    .filter((r) => r.id !== assistant.guild.id && !r.managed)
+    .sort((a, b) => b.position - a.position)
+    .map((r) => ({ id: r.id, label: `@${r.name}` }));
+  const users = assistant.guild.members.cache
+    .filter((m) => !m.user.bot)
+    .sort((a, b) => a.displayName.localeCompare(b.displayName))
+    .map((m) => ({ id: m.id, label: m.displayName }));
+  const channels = assistant.guild.channels.cache
+    .filter(
+      (c) =>
+        (c.type === ChannelType.GuildText || c.type === ChannelType.GuildVoice) &&
+        c.permissionsFor(member).has('ViewChannel'),
+    )
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((c) => ({ id: c.id, label: `${c.type === ChannelType.GuildVoice ? '🔊' : '♯'} ${c.name}` }));
+  return configure({
+    title: `🔒 ${assistant.guild.name}: ${subDict.get('settings', { name: command ? `/${command.id}` : '-' })}`,
+    fields: {
+      command: {
+        id: `${path}/command`,
+        name: subDict.get('command'),
+        options: [...assistant.commands.keys()].sort().map((id) => ({ value: id, label: `/${id}` })),
+      },
+      roles: {
+        id: `${path}/roles`,
+        name: subDict.get('allowedRoles'),
+        options: createToggleOptions(roles, rule.roles),
+        disabled: !command,
+        summary: rule.roles.map((id) => roleMention(id)).join(' ') || subDict.get('anyone'),
+      },
+      users: {
+        id: `${path}/users`,
+        name: subDict.get('allowedUsers'),
+        options: createToggleOptions(users, rule.users),
+        disabled: !command,
+        summary: rule.users.map((id) => userMention(id)).join(' ') || subDict.get('anyone'),
+      },
+      channels: {
+        id: `${path}/channels`,
+        name: subDict.get('allowedChannels'),
+        options: createToggleOptions(channels, rule.channels),
+        disabled: !command,
+        summary: rule.channels.map((id) => channelMention(id)).join(' ') || subDict.get('anyChannel'),
+      },
+    },
+    data: { command: command?.id ?? '', roles: '', users: '', channels: '' },
+    input,
+  });
+}
+
 type ConfigureContext = {
   config: Options['config'];
   dict: SetupContextDictionary<Options>;
@@ -298,6 +429,12 @@ type SelectOption = {
   value: string;
 };
 
+type CommandRule = {
+  roles: string[];
+  users: string[];
+  channels: string[];
+};
+
 type VoiceConfig = {
   name: string;
   locale: Locale;
@@ -316,6 +453,7 @@ export type Options = {
     configServer: { type: 'guild' };
     configChannel: { type: 'guild' };
     configUser: { type: 'guild' };
+    configCommand: { type: 'guild' };
   };
   dict: {
     settings: { type: 'simple'; options: 'name' };
@@ -324,6 +462,8 @@ export type Options = {
     guideVoiceChannel: { type: 'simple' };
     multilingualGroup: { type: 'simple' };
     dictation: { type: 'simple' };
+    sttMode: { type: 'simple' };
+    freeCommand: { type: 'simple' };
     sttType: { type: 'simple' };
     sttOutput: { type: 'simple' };
     ttsInput: { type: 'simple' };
@@ -333,11 +473,24 @@ export type Options = {
     ttsSpeed: { type: 'simple' };
     ttsPitch: { type: 'simple' };
     joinedMemberMessage: { type: 'simple' };
+    command: { type: 'simple' };
+    allowedRoles: { type: 'simple' };
+    allowedUsers: { type: 'simple' };
+    allowedChannels: { type: 'simple' };
+    anyone: { type: 'simple' };
+    anyChannel: { type: 'simple' };
+    activationWord: { type: 'simple' };
+    defaultWord: { type: 'simple' };
+    customWord: { type: 'simple' };
   };
   data: {
     guild: {
       guildLocale: Locale;
       defaultTTS: VoiceConfig;
+      /**
+       * Activation word of the guild instead of the ones in the settings
+       */
+      activationWord: string;
       textChannels: Record<
         string,
         {
@@ -349,6 +502,10 @@ export type Options = {
         string,
         {
           dictation: boolean;
+          /**
+           * Voice commands without the activation word
+           */
+          freeCommand: boolean;
           stt: VoiceConfig;
           output: string;
           input: string;
@@ -362,6 +519,10 @@ export type Options = {
           tts: VoiceConfig & { speed: number; pitch: number };
         }
       >;
+      /**
+       * Roles, users and channels allowed to use each command, anyone or any channel if empty
+       */
+      commands: Record<string, CommandRule>;
     };
   };
 };
@@ -369,6 +530,10 @@ export type Options = {
 export const plugin: IPlugin<Options> = {
   name: 'guild-config',
   description: 'Discord guild config',
+  events: {
+    app: ['interactionCreate'],
+    guild: ['interactionCreate', 'channelDelete', 'guildMemberRemove', 'roleDelete'],
+  },
   config: {
     autoJoin: true,
   },
@@ -376,6 +541,10 @@ export const plugin: IPlugin<Options> = {
     configServer: ['ManageGuild'],
     configChannel: ['ManageChannels'],
     configUser: ['SendMessages'],
+    configCommand: ['ManageGuild'],
+  },
+  priorities: {
+    useCommand: 100, // before the other middlewares
   },
   i18n: {
     en: {
@@ -395,6 +564,11 @@ export const plugin: IPlugin<Options> = {
           example: 'user settings',
           patterns: ['user.*?(config|setting)'],
         },
+        configCommand: {
+          description: 'Command permission settings',
+          example: 'command settings',
+          patterns: ['command.*?(config|setting)'],
+        },
       },
       dict: {
         settings: "${name}'s Settings",
@@ -404,6 +578,8 @@ export const plugin: IPlugin<Options> = {
           'Tips: To configure a voice channel, run `/config-channel` in [a text chat in a voice channel](https://support.discord.com/hc/en-us/articles/4412085582359-Text-Channels-Text-Chat-In-Voice-Channels#h_01FMJT412WBX1MR4HDYNR8E95X)',
         multilingualGroup: 'Join Multilingual Group',
         dictation: 'Dictation',
+        sttMode: 'Voice Recognition Mode',
+        freeCommand: 'Commands without Activation Word',
         sttType: 'Voice Recognition Type',
         sttOutput: 'Voice Recognition Output',
         ttsInput: 'Text-to-Speech Input',
@@ -413,6 +589,15 @@ export const plugin: IPlugin<Options> = {
         ttsSpeed: 'Text-to-Speech - Speed',
         ttsPitch: 'Text-to-Speech - Pitch',
         joinedMemberMessage: 'Joined Member Message',
+        command: 'Command',
+        allowedRoles: 'Allowed Roles',
+        allowedUsers: 'Allowed Users',
+        allowedChannels: 'Allowed Channels',
+        anyone: 'Anyone',
+        anyChannel: 'Any Channel',
+        activationWord: 'Activation Word',
+        defaultWord: 'Default',
+        customWord: 'Custom',
       },
     },
     ja: {
@@ -432,6 +617,11 @@ export const plugin: IPlugin<Options> = {
           example: 'ユーザー設定',
           patterns: ['ユーザー設定'],
         },
+        configCommand: {
+          description: 'コマンドの権限設定',
+          example: 'コマンド設定',
+          patterns: ['コマンド設定'],
+        },
       },
       dict: {
         settings: '${name} の設定',
@@ -441,6 +631,8 @@ export const plugin: IPlugin<Options> = {
           'Tips: ボイスチャンネルを設定するには、[ボイスチャンネル付属のテキストチャット](https://support.discord.com/hc/en-us/articles/4412085582359-Text-Channels-Text-Chat-In-Voice-Channels#h_01FMJT412WBX1MR4HDYNR8E95X)で `/config-channel` を実行してください',
         multilingualGroup: '多言語グループに参加',
         dictation: '議事録',
+        sttMode: '音声認識モード',
+        freeCommand: '呼びかけなしコマンド',
         sttType: '音声認識タイプ',
         sttOutput: '音声認識出力',
         ttsInput: '読み上げ入力',
@@ -450,6 +642,15 @@ export const plugin: IPlugin<Options> = {
         ttsSpeed: '読み上げ - 速さ',
         ttsPitch: '読み上げ - 高さ',
         joinedMemberMessage: '参加メンバーの投稿',
+        command: 'コマンド',
+        allowedRoles: '許可するロール',
+        allowedUsers: '許可するユーザー',
+        allowedChannels: '許可するチャンネル',
+        anyone: '全員',
+        anyChannel: 'すべてのチャンネル',
+        activationWord: '呼びかけの言葉',
+        defaultWord: 'デフォルト',
+        customWord: 'カスタム',
       },
     },
     'zh-CN': {
@@ -469,6 +670,11 @@ export const plugin: IPlugin<Options> = {
           example: '用户设定',
           patterns: ['用户设定'],
         },
+        configCommand: {
+          description: '命令权限设定',
+          example: '命令设定',
+          patterns: ['命令设定'],
+        },
       },
       dict: {
         settings: '${name} 的设定',
@@ -478,6 +684,8 @@ export const plugin: IPlugin<Options> = {
           'Tips: 要配置语音频道，请在[语音频道的文本聊天](https://support.discord.com/hc/en-us/articles/4412085582359-Text-Channels-Text-Chat-In-Voice-Channels#h_01FMJT412WBX1MR4HDYNR8E95X)中运行 `/config-channel`',
         multilingualGroup: '加入多语言群',
         dictation: '听写',
+        sttMode: '语音识别模式',
+        freeCommand: '无需唤醒词的命令',
         sttType: '语音识别型',
         sttOutput: '语音识别输出',
         ttsInput: '朗读输入',
@@ -487,6 +695,15 @@ export const plugin: IPlugin<Options> = {
         ttsSpeed: '朗读 - 速度',
         ttsPitch: '朗读 - 音高',
         joinedMemberMessage: '加入成员的信息',
+        command: '命令',
+        allowedRoles: '允许的身份组',
+        allowedUsers: '允许的用户',
+        allowedChannels: '允许的频道',
+        anyone: '所有人',
+        anyChannel: '所有频道',
+        activationWord: '唤醒词',
+        defaultWord: '默认',
+        customWord: '自定义',
       },
     },
     'zh-TW': {
@@ -506,6 +723,11 @@ export const plugin: IPlugin<Options> = {
           example: '用戶設定',
           patterns: ['用戶設定'],
         },
+        configCommand: {
+          description: '命令權限設定',
+          example: '命令設定',
+          patterns: ['命令設定'],
+        },
       },
       dict: {
         settings: '${name} 的設定',
@@ -515,6 +737,8 @@ export const plugin: IPlugin<Options> = {
           'Tips: 要配置語音頻道，請在[語音頻道的文本聊天](https://support.discord.com/hc/en-us/articles/4412085582359-Text-Channels-Text-Chat-In-Voice-Channels#h_01FMJT412WBX1MR4HDYNR8E95X)中運行 `/config-channel`',
         multilingualGroup: '加入多語言群',
         dictation: '聽寫',
+        sttMode: '語音識別模式',
+        freeCommand: '無需喚醒詞的命令',
         sttType: '語音識別型',
         sttOutput: '語音識別輸出',
         ttsInput: '朗讀輸入',
@@ -524,6 +748,15 @@ export const plugin: IPlugin<Options> = {
         ttsSpeed: '朗讀 - 速度',
         ttsPitch: '朗讀 - 音高',
         joinedMemberMessage: '加入成員的信息',
+        command: '命令',
+        allowedRoles: '允許的身分組',
+        allowedUsers: '允許的用戶',
+        allowedChannels: '允許的頻道',
+        anyone: '所有人',
+        anyChannel: '所有頻道',
+        activationWord: '喚醒詞',
+        defaultWord: '預設',
+        customWord: '自訂',
       },
     },
   },
@@ -535,8 +768,13 @@ export const plugin: IPlugin<Options> = {
         assistant.locale = data.guildLocale;
       },
       async onInteractionCreate(interaction) {
-        if (!app.discord.isReady() || !interaction.isStringSelectMenu() || !interaction.values[0]) return;
+        if (!app.discord.isReady()) return;
+        if (!interaction.isStringSelectMenu() && !(interaction.isModalSubmit() && interaction.isFromMessage())) return;
         if (!interaction.customId.startsWith(`guild-config/${app.discord.client.user.id}/`)) return;
+        const value = interaction.isStringSelectMenu()
+          ? interaction.values[0]
+          : interaction.fields.getTextInputValue('word').trim();
+        if (value === undefined) return; // an empty word of the modal keeps the current one
         const path = interaction.customId.split('/');
         if (!path[2] || !isLocale(path[2]) || !path[3] || !path[4] || !path[5] || !path[6]) return;
         const req = { locale: path[2], guildId: path[3], target: { type: path[4], id: path[5], key: path[6] } };
@@ -548,7 +786,6 @@ export const plugin: IPlugin<Options> = {
         if (!config || !dict) return;
         const context = { config, dict, data, assistant } as ConfigureContext;
         const member = await assistant.guild.members.fetch(interaction.user.id);
-        const value = interaction.values[0];
         switch (req.target.type) {
           case 'guild': {
             if (!hasPermissions(assistant, member, 'configServer')) return;
@@ -558,7 +795,7 @@ export const plugin: IPlugin<Options> = {
                 if (res.updated) {
                   if (!isLocale(value)) return;
                   data.guildLocale = value;
-                  ReloadCache.set(assistant.guild.id, { locale: req.locale, interaction });
+                  ReloadCache.set(assistant.guild.id, { locale: req.locale, message: interaction.message });
                   await interaction.update({ content: '🔄', embeds: [], components: [] });
                   await app.discord.assistants.remove(assistant.guild.id);
                   await app.discord.assistants.add(app, assistant.guild);
@@ -586,6 +823,22 @@ export const plugin: IPlugin<Options> = {
                 await interaction.update(res.message);
                 return;
               }
+              case 'activation': {
+                if (interaction.isStringSelectMenu()) {
+                  if (value === 'custom') {
+                    const label = dict.sub(req.locale).get('activationWord');
+                    await interaction.showModal(createWordModal(interaction.customId, label, data.activationWord));
+                    return;
+                  }
+                  delete data.activationWord;
+                } else if (value) {
+                  data.activationWord = value;
+                }
+                assistant.setActivationWord(data.activationWord);
+                const { message } = configureGuild(context, { locale: req.locale });
+                await interaction.update(message);
+                return;
+              }
               default: {
                 return;
               }
@@ -635,11 +888,12 @@ export const plugin: IPlugin<Options> = {
                   input: { key: req.target.key, value },
                 });
                 if (res.updated) {
-                  const { dictation, stt, output, input, join } = res.data;
+                  const { dictation: mode, stt, output, input, join } = res.data;
                   const voiceConfig = parseVoiceId(stt) ?? { ...assistant.defaultSTT };
                   const channels = data.voiceChannels ?? {};
                   channels[channel.id] = {
-                    dictation: dictation === 'on',
+                    dictation: mode === 'on' || mode === 'both',
+                    freeCommand: mode === 'free' || mode === 'both',
                     stt: voiceConfig,
                     output,
                     input,
@@ -655,6 +909,41 @@ export const plugin: IPlugin<Options> = {
               }
             }
           }
+          case 'commands': {
+            if (!hasPermissions(assistant, member, 'configCommand')) return;
+            const key = req.target.key;
+            if (key !== 'command' && key !== 'roles' && key !== 'users' && key !== 'channels') return;
+            const paging = /^__\d+__$/.test(value);
+            if (key === 'command' && !paging) {
+              const { message } = configureCommands(context, {
+                locale: req.locale,
+                member,
+                command: assistant.commands.get(value),
+              });
+              await interaction.update(message);
+              return;
+            }
+            const command = assistant.commands.get(req.target.id);
+            if (!paging && key !== 'command' && command) {
+              const commands = data.commands ?? {};
+              const rule = commands[command.id] ?? { roles: [], users: [], channels: [] };
+              rule[key] = rule[key].includes(value) ? rule[key].filter((id) => id !== value) : [...rule[key], value];
+              if (rule.roles.length === 0 && rule.users.length === 0 && rule.channels.length === 0) {
+                delete commands[command.id];
+              } else {
+                commands[command.id] = rule;
+              }
+              data.commands = commands;
+            }
+            const { message } = configureCommands(context, {
+              locale: req.locale,
+              member,
+              command,
+              ...(paging ? { input: { key, value } } : {}),
+            });
+            await interaction.update(message);
+            return;
+          }
           case 'users': {
             if (!hasPermissions(assistant, member, 'configUser')) return;
             switch (req.target.key) {
@@ -727,11 +1016,20 @@ export const plugin: IPlugin<Options> = {
         const { message } = configureUsers(context, { locale, member });
         await member.send(message);
       },
+      async commandConfigCommand({ locale, member }) {
+        const { message } = configureCommands(context, { locale, member, command: undefined });
+        await member.send(message);
+      },
+      async useCommand(event, command, next) {
+        const rule = data.commands?.[command.id];
+        if (rule && !isAllowed(rule, event.member, event.channel.id)) return 'forbidden';
+        return next();
+      },
       async onReady() {
         const cache = ReloadCache.get(assistant.guild.id);
         if (cache) {
           const { message } = configureGuild(context, { locale: cache.locale });
-          await cache.interaction.message.edit(message);
+          await cache.message.edit(message);
           ReloadCache.delete(assistant.guild.id);
         }
         if (data.defaultTTS) {
@@ -739,8 +1037,10 @@ export const plugin: IPlugin<Options> = {
           assistant.defaultTTS.locale = data.defaultTTS.locale;
           assistant.defaultTTS.voice = data.defaultTTS.voice;
         }
+        if (data.activationWord) assistant.setActivationWord(data.activationWord);
       },
       onChannelDelete(channel) {
+        removeFromRules(data, 'channels', channel.id);
         switch (channel.type) {
           case ChannelType.GuildText: {
             const textChannels = data.textChannels;
@@ -759,11 +1059,15 @@ export const plugin: IPlugin<Options> = {
         }
       },
       onGuildMemberRemove(member) {
+        removeFromRules(data, 'users', member.id);
         const users = data.users;
         if (!users?.[member.id]) return;
         delete users[member.id];
         data.users = users;
       },
+      onRoleDelete(role) {
+        removeFromRules(data, 'roles', role.id);
+      },
     };
   },
 };
@@ -15,6 +15,8 @@ export type Options = {
 export const plugin: IPlugin<Options> = {
   name: 'guild-follow',
   description: 'Discord voice channel auto-join/auto-leave',
+  events: { guild: ['voiceStateUpdate'] },
+  optionalDependencies: ['guild-config'],
   setupGuild({ data, assistant }) {
     let currentChannel: VoiceChannel | undefined;
     return {
@@ -25,6 +25,8 @@ export type Options = {
 export const plugin: IPlugin<Options> = {
   name: 'guild-notify',
   description: 'Discord message reaction notifier',
+  events: { guild: ['messageReactionAdd', 'messageReactionRemove'] },
+  optionalDependencies: ['guild-config'],
   config: {
     delay: 3000,
     partial: true,
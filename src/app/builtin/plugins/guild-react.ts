@@ -50,6 +50,8 @@ export type Options = {
 export const plugin: IPlugin<Options> = {
   name: 'guild-react',
   description: 'Discord message auto-reactions',
+  events: { guild: ['messageCreate'] },
+  optionalDependencies: ['guild-config'],
   config: {
     actions: [
       // // example
@@ -6,6 +6,8 @@ import {
   EmbedBuilder,
   PermissionsBitField,
 } from 'discord.js';
+import type { LocalWakeWordDetectorOptions } from '../../classes';
+import { LocalWakeWordDetector } from '../../classes';
 
 export type Options = {
   config: {
@@ -24,6 +26,11 @@ export type Options = {
      * @default 300_000
      */
     nameless: number;
+    /**
+     * Local keyword spotter to detect the activation word before speech-to-text, not used if `exec` is empty
+     * @default { exec: '', args: [], sampleRate: 16_000 }
+     */
+    detector: LocalWakeWordDetectorOptions;
   };
   dict: {
     deleteDictation: { type: 'simple' };
@@ -33,10 +40,17 @@ export type Options = {
 export const plugin: IPlugin<Options> = {
   name: 'guild-stt',
   description: 'Discord speech-to-text',
+  events: { guild: ['interactionCreate', 'messageCreate'] },
+  optionalDependencies: ['guild-config'],
   config: {
     command: false,
     timeout: 3000,
     nameless: 300_000,
+    detector: {
+      exec: '',
+      args: [],
+      sampleRate: 16_000,
+    },
   },
   i18n: {
     en: {
@@ -60,16 +74,34 @@ export const plugin: IPlugin<Options> = {
       },
     },
   },
-  setupGuild({ config, dict, assistant }) {
+  async setupGuild({ config, dict, assistant }) {
     let prevDictation: { userId: string; channelId: string; time: number } | undefined;
     let allChannelConfigs = assistant.data.get('guild-config')?.voiceChannels;
-    assistant.data.subscribe('guild-config', async (value) => {
+    let activationWord = assistant.data.get('guild-config')?.activationWord;
+    const isDeaf = (channelId: string): boolean => {
+      const options = allChannelConfigs?.[channelId];
+      return !config.command && !options?.dictation && !options?.freeCommand;
+    };
+    const detector = config.detector.exec ? new LocalWakeWordDetector(config.detector, assistant.log.error) : undefined;
+    if (detector && (await detector.check())) {
+      assistant.audioReceiver.setDetector({
+        start: (member, detect) => {
+          // speeches without the activation word are recognized as well
+          if (assistant.isAsking(member.id)) return undefined;
+          if (activationWord) return undefined; // the spotter only knows the default word
+          const channelConfig = allChannelConfigs?.[member.voice.channelId ?? ''];
+          if (channelConfig && (channelConfig.dictation || channelConfig.freeCommand)) return undefined;
+          return detector.start(member, detect);
+        },
+      });
+    }
+    const unsubscribe = assistant.data.subscribe('guild-config', async (value) => {
       allChannelConfigs = value?.voiceChannels;
+      activationWord = value?.activationWord;
       const current = assistant.voice;
       if (!current) return;
-      const options = allChannelConfigs?.[current.channelId];
-      if (!options) return;
-      const selfDeaf = !(config.command || options.dictation);
+      if (!allChannelConfigs?.[current.channelId]) return;
+      const selfDeaf = isDeaf(current.channelId);
       if (current.selfDeaf === selfDeaf) return;
       if (selfDeaf) {
         assistant.deafen();
@@ -100,13 +132,17 @@ export const plugin: IPlugin<Options> = {
         await message.delete();
         await interaction.reply({ content: '✅', ephemeral: true });
       },
+      beforeDestroy() {
+        unsubscribe();
+        if (detector) assistant.audioReceiver.setDetector(undefined);
+      },
       beforeJoin(options) {
-        options.selfDeaf = !(config.command || allChannelConfigs?.[options.channelId]?.dictation);
+        options.selfDeaf = isDeaf(options.channelId);
       },
       onJoin(channel) {
         // when moved to other channel by user, bot's self-deaf status could be wrong
         // it can be covered by `assistant.rejoin()` here but it's not worth it
-        const selfDeaf = !(config.command || allChannelConfigs?.[channel.id]?.dictation);
+        const selfDeaf = isDeaf(channel.id);
         if (selfDeaf) {
           assistant.deafen();
         } else {
@@ -118,8 +154,10 @@ export const plugin: IPlugin<Options> = {
         prevDictation = undefined;
       },
       onListen(audio) {
-        let interim = config.command && config.timeout > 0;
         const channelConfig = allChannelConfigs?.[audio.channel.id];
+        const activation = !channelConfig?.freeCommand;
+        // an answer to a command has no activation word
+        let interim = config.command && config.timeout > 0 && activation && !assistant.isAsking(audio.member.id);
         if (channelConfig?.output) {
           const channel = assistant.guild.channels.cache.get(channelConfig.output);
           if (channel && (channel.type === ChannelType.GuildText || channel.type === ChannelType.GuildVoice)) {
@@ -147,8 +185,11 @@ export const plugin: IPlugin<Options> = {
         }
         audio.once('end', () => {
           if (audio.aborted || audio.transcript.length === 0) return;
-          const command = assistant.interpret(audio.transcript);
-          if (command) assistant.run({ type: 'voice', command, source: audio });
+          if (assistant.answer(audio.member.id, audio.transcript)) return;
+          const command = assistant.interpret(audio.transcript, 'voice', activation);
+          if (!command) return;
+          if (!activation) assistant.beep('success', audio.member); // to confirm that the speech is taken as a command
+          assistant.run({ type: 'voice', command, source: audio });
         });
         if (interim) {
           const timer = setTimeout(() => audio.abort(), config.timeout);
@@ -22,17 +22,166 @@ export type Options = {
      */
     nameless: number;
   };
+  command: {
+    glossary: { type: 'guild' };
+    glossaryAdd: { type: 'guild'; options: 'term' | 'lang' | 'translation'; slots: { lang: 'language' } };
+    glossaryRemove: { type: 'guild'; options: 'term' };
+  };
+  dict: {
+    glossary: { type: 'simple' };
+    emptyGlossary: { type: 'simple' };
+  };
+  data: {
+    guild: {
+      /**
+       * Missing until a term is added
+       */
+      glossary?: TranslatorGlossary;
+    };
+  };
 };
 
 export const plugin: IPlugin<Options> = {
   name: 'guild-translate',
   description: 'Discord message translator',
+  events: { guild: ['messageCreate'] },
+  optionalDependencies: ['guild-config'],
   config: {
     original: true,
     link: true,
     nameless: 300_000,
   },
-  setupGuild({ config, assistant }) {
+  permissions: {
+    glossary: ['SendMessages'],
+    glossaryAdd: ['ManageGuild'],
+    glossaryRemove: ['ManageGuild'],
+  },
+  slots: {
+    glossaryAdd: { lang: 'language' },
+  },
+  i18n: {
+    en: {
+      command: {
+        glossary: {
+          description: 'Show translation glossary',
+          example: 'glossary',
+          patterns: ['glossary'],
+        },
+        glossaryAdd: {
+          description: [
+            'Add a term to translation glossary',
+            {
+              term: 'Term not to be translated',
+              lang: 'Target language code, e.g. en, ja, zh-CN',
+              translation: 'Translation of the term in the target language',
+            },
+          ],
+          example: '',
+          patterns: [],
+        },
+        glossaryRemove: {
+          description: ['Remove a term from translation glossary', { term: 'Term to remove' }],
+          example: '',
+          patterns: [],
+        },
+      },
+      dict: {
+        glossary: 'Translation Glossary',
+        emptyGlossary: 'No terms in translation glossary',
+      },
+    },
+    ja: {
+      command: {
+        glossary: {
+          description: '翻訳の用語集を表示',
+          example: '用語集',
+          patterns: ['用語集'],
+        },
+        glossaryAdd: {
+          description: [
+            '翻訳の用語集に用語を追加',
+            {
+              term: '翻訳しない用語',
+              lang: '翻訳先の言語コード (例: en, ja, zh-CN)',
+              translation: '翻訳先の言語での訳語',
+            },
+          ],
+          example: '',
+          patterns: [],
+        },
+        glossaryRemove: {
+          description: ['翻訳の用語集から用語を削除', { term: '削除する用語' }],
+          example: '',
+          patterns: [],
+        },
+      },
+      dict: {
+        glossary: '翻訳の用語集',
+        emptyGlossary: '翻訳の用語集に用語がありません',
+      },
+    },
+    'zh-CN': {
+      command: {
+        glossary: {
+          description: '显示翻译术语表',
+          example: '术语表',
+          patterns: ['术语表'],
+        },
+        glossaryAdd: {
+          description: [
+            '向翻译术语表添加术语',
+            {
+              term: '不翻译的术语',
+              lang: '目标语言代码 (例: en, ja, zh-CN)',
+              translation: '术语在目标语言中的译文',
+            },
+          ],
+          example: '',
+          patterns: [],
+        },
+        glossaryRemove: {
+          description: ['从翻译术语表删除术语', { term: '要删除的术语' }],
+          example: '',
+          patterns: [],
+        },
+      },
+      dict: {
+        glossary: '翻译术语表',
+        emptyGlossary: '翻译术语表中没有术语',
+      },
+    },
+    'zh-TW': {
+      command: {
+        glossary: {
+          description: '顯示翻譯術語表',
+          example: '術語表',
+          patterns: ['術語表'],
+        },
+        glossaryAdd: {
+          description: [
+            '向翻譯術語表新增術語',
+            {
+              term: '不翻譯的術語',
+              lang: '目標語言代碼 (例: en, ja, zh-CN)',
+              translation: '術語在目標語言中的譯文',
+            },
+          ],
+          example: '',
+          patterns: [],
+        },
+        glossaryRemove: {
+          description: ['從翻譯術語表刪除術語', { term: '要刪除的術語' }],
+          example: '',
+          patterns: [],
+        },
+      },
+      dict: {
+        glossary: '翻譯術語表',
+        emptyGlossary: '翻譯術語表中沒有術語',
+      },
+    },
+  },
+  setupGuild({ config, dict, data, assistant }) {
     let prevTranslations: Map<string, { userId: string; timer: NodeJS.Timeout }> | undefined;
     const deletePrevTranslation = (channelId: string): void => {
       if (!prevTranslations) return;
@@ -75,7 +224,7 @@ export const plugin: IPlugin<Options> = {
                 return `<::${id}>`; // to avoid to translate custom emoji names
               }),
             };
-            const res = await assistant.translate(req);
+            const res = await assistant.translate(req, data.glossary);
             if (Object.keys(emojis).length > 0) {
               for (const [id, [animated, name]] of Object.entries(emojis)) {
                 res.text = res.text.replaceAll(`<::${id}>`, `<${animated}:${name}:${id}>`); // restore emojis
@@ -104,6 +253,41 @@ export const plugin: IPlugin<Options> = {
       }
     };
     return {
+      async commandGlossary({ locale, reply }) {
+        const subDict = dict.sub(locale);
+        const entries = Object.entries(data.glossary ?? {}).sort(([a], [b]) => a.localeCompare(b));
+        if (entries.length === 0) {
+          await reply(subDict.get('emptyGlossary'));
+          return true;
+        }
+        const lines = entries.map(([term, translations]) => {
+          const pairs = Object.entries(translations).map(([lang, translation]) => `${lang}: ${translation}`);
+          return pairs.length > 0 ? `**${term}** → ${pairs.join(', ')}` : `**${term}**`;
+        });
+        const embed = new EmbedBuilder()
+          .setColor('Blurple')
+          .setTitle(`🌐 ${subDict.get('glossary')}`)
+          .setDescription(omitString(lines.join('\n'), 4000));
+        await reply({ embeds: [embed] });
+        return true;
+      },
+      commandGlossaryAdd({ options }) {
+        const term = options.term.trim();
+        const translation = options.translation.trim();
+        if (term.length === 0 || translation.length === 0) return false;
+        const glossary = { ...data.glossary };
+        glossary[term] = { ...glossary[term], [options.lang]: translation };
+        data.glossary = glossary;
+        return true;
+      },
+      commandGlossaryRemove({ options }) {
+        const term = options.term.trim();
+        if (!data.glossary?.[term]) return false;
+        const glossary = { ...data.glossary };
+        delete glossary[term];
+        data.glossary = glossary;
+        return true;
+      },
       async onMessageCreate(message) {
         if (
           prevTranslations &&
@@ -35,6 +35,8 @@ export type Options = {
 export const plugin: IPlugin<Options> = {
   name: 'guild-tts',
   description: 'Discord text-to-speech',
+  events: { guild: ['messageCreate', 'messageReactionAdd'] },
+  optionalDependencies: ['guild-config'],
   config: {
     strippers: [
       ['^[!/;=?].*', 's'], // possibly bot command
@@ -0,0 +1,335 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { App } from './App';
+import type { GuildAssistant } from './GuildAssistant';
+import type { Logger } from './Logger';
+import type { TranslatorCache } from './TranslatorCache';
+import type { TTSCache } from './TTSCache';
+
+const MaxBodySize = 64 * 1024;
+
+const MetricsContentType = 'text/plain; version=0.0.4; charset=utf-8';
+
+enum Status {
+  unready,
+  preparing,
+  ready,
+  destroying,
+  destroyed,
+}
+
+// a string body is sent as plain text unless the content type is specified
+type Response = [status: number, body: object | string, contentType?: string];
+
+type Route = {
+  method: 'GET' | 'POST';
+  pattern: RegExp;
+  /**
+   * Served also by the monitor listener without a token
+   */
+  monitor?: boolean;
+  handle: (app: App, params: string[], body: BasicObject) => Awaitable<Response>;
+};
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+function hash(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+function getAssistant(app: App, guildId: string | undefined): GuildAssistant {
+  const assistant = guildId ? app.discord.assistants.get(guildId) : undefined;
+  if (!assistant) throw new HttpError(404, 'Guild assistant not found');
+  return assistant;
+}
+
+function getString(body: BasicObject, key: string): string {
+  const value = body[key];
+  if (typeof value !== 'string' || value.length === 0) throw new HttpError(400, `Invalid parameter: ${key}`);
+  return value;
+}
+
+function describeCache(cache: TranslatorCache | TTSCache | undefined): { cache?: object } {
+  return cache ? { cache: cache.stats } : {};
+}
+
+function describeAssistant(assistant: GuildAssistant): object {
+  return {
+    id: assistant.guild.id,
+    name: assistant.guild.name,
+    locale: assistant.locale,
+    voice: assistant.voiceState ?? null,
+  };
+}
+
+async function readBody(req: IncomingMessage): Promise<BasicObject> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MaxBodySize) throw new HttpError(413, 'Too large body');
+    chunks.push(chunk as Buffer);
+  }
+  if (chunks.length === 0) return {};
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString()) as unknown;
+    if (typeof body === 'object' && body !== null && !Array.isArray(body)) return body as BasicObject;
+  } catch {
+    // fall through
+  }
+  throw new HttpError(400, 'Invalid JSON body');
+}
+
+const Routes: Route[] = [
+  {
+    method: 'GET',
+    pattern: /^\/healthz$/,
+    monitor: true,
+    handle: (app) => {
+      const shards = app.discord.shards;
+      const healthy = app.status === 'ready' && shards.every(({ status }) => status === 'Ready');
+      return [healthy ? 200 : 503, { status: app.status, shards }];
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/metrics$/,
+    monitor: true,
+    handle: (app) => [200, app.metrics.render(), MetricsContentType],
+  },
+  {
+    method: 'GET',
+    pattern: /^\/assistants$/,
+    handle: (app) => [200, [...app.discord.assistants.values()].map((assistant) => describeAssistant(assistant))],
+  },
+  {
+    method: 'GET',
+    pattern: /^\/assistants\/(\d+)$/,
+    handle: (app, [guildId]) => {
+      const assistant = getAssistant(app, guildId);
+      return [
+        200,
+        {
+          ...describeAssistant(assistant),
+          plugins: [...assistant.attachments.keys()],
+          commands: [...assistant.commands.keys()],
+        },
+      ];
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/engines$/,
+    handle: (app) => {
+      const { store, translator, tts, stt } = app.engines.maps;
+      const { caches } = app.engines;
+      return [
+        200,
+        {
+          store: [...store.keys()].map((name) => ({ name })),
+          translator: [...translator.values()].map(({ name, active, languages }) => ({
+            name,
+            active,
+            languages,
+            ...describeCache(caches.translator.get(name)),
+          })),
+          tts: [...tts.values()].map(({ name, active, locales }) => ({
+            name,
+            active,
+            locales: Object.keys(locales),
+            ...describeCache(caches.tts.get(name)),
+          })),
+          stt: [...stt.values()].map(({ name, active, locales }) => ({ name, active, locales: Object.keys(locales) })),
+        },
+      ];
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/plugins$/,
+    handle: (app) => [200, app.reports.plugins],
+  },
+  {
+    method: 'POST',
+    pattern: /^\/assistants\/(\d+)\/join$/,
+    handle: async (app, [guildId], body) => {
+      const ok = await getAssistant(app, guildId).join(getString(body, 'channelId'));
+      return [200, { ok }];
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/assistants\/(\d+)\/leave$/,
+    handle: (app, [guildId]) => [200, { ok: getAssistant(app, guildId).leave() }],
+  },
+  {
+    method: 'POST',
+    pattern: /^\/assistants\/(\d+)\/speak$/,
+    handle: (app, [guildId], body) => [200, { ok: getAssistant(app, guildId).speak(getString(body, 'text')) }],
+  },
+  {
+    method: 'POST',
+    pattern: /^\/assistants\/(\d+)\/stop$/,
+    handle: (app, [guildId]) => [200, { ok: getAssistant(app, guildId).audioPlayer.stop() }],
+  },
+];
+
+export type AdminServerOptions = {
+  /**
+   * Bearer token to access, the control listener doesn't start without it
+   */
+  token?: string;
+  /**
+   * Port number
+   * @default 8930
+   */
+  port?: number;
+  /**
+   * Host name to listen, only localhost is recommended
+   * @default "127.0.0.1"
+   */
+  host?: string;
+  /**
+   * Listener only for `/healthz` and `/metrics` without a token, e.g. for container health checks and Prometheus
+   */
+  monitor?: {
+    /**
+     * Port number
+     * @default 8931
+     */
+    port?: number;
+    /**
+     * Host name to listen
+     * @default "127.0.0.1"
+     */
+    host?: string;
+  };
+};
+
+async function listen(server: Server, port: number, host: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+}
+
+async function close(server: Server | undefined): Promise<void> {
+  return new Promise((resolve) => {
+    if (!server) return resolve();
+    server.close(() => resolve());
+    server.closeAllConnections();
+  });
+}
+
+export class AdminServer {
+  readonly #options: AdminServerOptions | undefined;
+  #server: Server | undefined;
+  #monitor: Server | undefined;
+  #status: Status;
+
+  constructor(options: AdminServerOptions | undefined) {
+    this.#options = options;
+    this.#status = Status.unready;
+  }
+
+  get port(): number | undefined {
+    return (this.#server?.address() as AddressInfo | null)?.port;
+  }
+
+  get monitorPort(): number | undefined {
+    return (this.#monitor?.address() as AddressInfo | null)?.port;
+  }
+
+  async setup(app: App): Promise<void> {
+    const options = this.#options;
+    if (this.#status !== Status.unready || (!options?.token && !options?.monitor)) return;
+    this.#status = Status.preparing;
+    const log = app.log.createChild('ADMIN');
+    if (options.token) {
+      const token = hash(options.token);
+      const server = createServer((req, res) => void this.#handle(app, log, token, req, res));
+      const host = options.host ?? '127.0.0.1';
+      await listen(server, options.port ?? 8930, host);
+      server.on('error', log.error);
+      this.#server = server;
+      log.info(`Listening on ${host}:${this.port ?? '-'}`);
+    }
+    if (options.monitor) {
+      const server = createServer((req, res) => void this.#handle(app, log, undefined, req, res));
+      const host = options.monitor.host ?? '127.0.0.1';
+      await listen(server, options.monitor.port ?? 8931, host);
+      server.on('error', log.error);
+      this.#monitor = server;
+      log.info(`Monitoring on ${host}:${this.monitorPort ?? '-'}`);
+    }
+    this.#status = Status.ready;
+  }
+
+  async destroy(): Promise<void> {
+    if (this.#status !== Status.ready) return;
+    this.#status = Status.destroying;
+    await Promise.all([close(this.#server), close(this.#monitor)]);
+    this.#server = undefined;
+    this.#monitor = undefined;
+    this.#status = Status.destroyed;
+  }
+
+  /**
+   * @param token hashed token of the control listener, or `undefined` for the monitor listener
+   */
+  async #handle(
+    app: App,
+    log: Logger,
+    token: Buffer | undefined,
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    let status: number;
+    let body: object | string;
+    let contentType: string | undefined;
+    try {
+      const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+      const routes = Routes.filter(
+        ({ pattern, monitor }) => pattern.test(path) && (token !== undefined || monitor === true),
+      );
+      const route = routes.find(({ method }) => method === req.method);
+      const authorization = req.headers.authorization ?? '';
+      if (token && (!authorization.startsWith('Bearer ') || !timingSafeEqual(hash(authorization.slice(7)), token))) {
+        throw new HttpError(401, 'Unauthorized');
+      }
+      if (!route) throw routes.length > 0 ? new HttpError(405, 'Method not allowed') : new HttpError(404, 'Not found');
+      const params = path.match(route.pattern)?.slice(1) ?? [];
+      [status, body, contentType] = await route.handle(app, params, route.method === 'POST' ? await readBody(req) : {});
+      log.debug?.(`${req.method ?? '-'} ${path} ${status}`);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        status = error.status;
+        body = { error: error.message };
+      } else {
+        log.error(error);
+        status = 500;
+        body = { error: 'Internal server error' };
+      }
+    }
+    if (typeof body === 'string') {
+      res.writeHead(status, { 'Content-Type': contentType ?? 'text/plain; charset=utf-8' });
+      res.end(body);
+    } else {
+      res.writeHead(status, { 'Content-Type': contentType ?? 'application/json; charset=utf-8' });
+      res.end(JSON.stringify(body));
+    }
+  }
+}
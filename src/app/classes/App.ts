@@ -1,12 +1,17 @@
 import type { ClientEvents, DMChannel, Interaction, Message, PartialDMChannel } from 'discord.js';
 import { Client } from 'discord.js';
+import { isDeepStrictEqual } from 'node:util';
+import { AdminServer } from './AdminServer';
 import { Datastore } from './Datastore';
 import { DiscordManager } from './DiscordManager';
+import type { EngineStateChange } from './EngineHealth';
 import { EngineManager } from './EngineManager';
 import type { GuildAssistant } from './GuildAssistant';
 import { GuildAssistantManager } from './GuildAssistantManager';
 import { HomeAssistant } from './HomeAssistant';
 import { Logger } from './Logger';
+import { Metrics } from './Metrics';
+import type { ModuleReport } from './ModuleLoader';
 import { ModuleLoader } from './ModuleLoader';
 import { PluginAdapter } from './PluginAdapter';
 import type { PluginContextOptions } from './PluginManager';
@@ -18,6 +23,10 @@ const EnginePaths = ['./app/builtin/engines/', './user/engines/'];
 
 const PluginPaths = ['./app/builtin/plugins/', './user/plugins/'];
 
+function formatModule({ name, description, package: info }: ModuleReport[number]): string {
+  return info ? `${name}: ${description} (${info.name}@${info.version})` : `${name}: ${description}`;
+}
+
 enum Status {
   unready,
   preparing,
@@ -28,19 +37,29 @@ enum Status {
 
 type Argv = Record<string, string[]>;
 
+export type StoreMigrationReport = {
+  total: number;
+  copied: number;
+  verified: number;
+  failed: string[];
+};
+
 type DI = {
   data: Datastore<'app'>;
   log: Logger;
+  metrics: Metrics;
   engines: EngineManager;
   plugins: PluginManager;
   discord: DiscordManager;
   home: HomeAssistant;
+  admin: AdminServer;
 };
 
 export type AppInterface = {
   beforeGuildAssistantSetup(assistant: Mutable<GuildAssistant>, optionsList: PluginContextOptions[]): Awaitable<void>;
   beforeDestroy(reason: string): Awaitable<void>;
   onReady(): Awaitable<void>;
+  onEngineStateChange(change: EngineStateChange): Awaitable<void>;
   // Discord.js events
   onInteractionCreate(interaction: Interaction<undefined>): Awaitable<void>;
   onMessageCreate(message: Message<false>): Awaitable<void>;
@@ -61,10 +80,13 @@ export class App extends PluginAdapter<AppInterface> {
   readonly locale: Locale;
   readonly data: Datastore<'app'>;
   readonly log: Logger;
+  readonly metrics: Metrics;
   readonly engines: EngineManager;
   readonly plugins: PluginManager;
   readonly discord: DiscordManager;
   readonly home: HomeAssistant;
+  readonly admin: AdminServer;
+  readonly reports: { engines: ModuleReport; plugins: ModuleReport };
   readonly #log: Logger;
   #status: Status;
 
@@ -74,10 +96,13 @@ export class App extends PluginAdapter<AppInterface> {
     this.locale = locale;
     this.data = di.data;
     this.log = di.log;
+    this.metrics = di.metrics;
     this.engines = di.engines;
     this.plugins = di.plugins;
     this.discord = di.discord;
     this.home = di.home;
+    this.admin = di.admin;
+    this.reports = { engines: [], plugins: [] };
     this.#log = log;
     this.#status = Status.unready;
   }
@@ -86,26 +111,35 @@ export class App extends PluginAdapter<AppInterface> {
     return process.platform;
   }
 
+  get status(): keyof typeof Status {
+    return Status[this.#status] as keyof typeof Status;
+  }
+
   async setup(): Promise<void> {
     if (this.#status !== Status.unready) return;
     this.#status = Status.preparing;
     this.#log.info('Launching iwassistant');
     this.#log.info(`Locale: ${this.locale}`);
+    this.#initializeMetrics();
     const engineReport = await this.engines.setup(this);
+    this.reports.engines = engineReport.modules;
     this.#log.info('Engines:');
     for (const module of engineReport.modules) {
-      this.#log.info(`${module.enabled ? '*' : '-'} ${module.name}: ${module.description}`);
+      this.#log.info(`${module.enabled ? '*' : '-'} ${formatModule(module)}`);
     }
+    this.engines.on('stateChange', (change) => void this.emit('engineStateChange', change));
     await this.data.setup(this.engines.getStore(), this.#log.error);
     this.#log.debug?.('Data:', this.data);
-    const pluginReport = await this.plugins.setup();
+    const pluginReport = await this.plugins.setup(this);
+    this.reports.plugins = pluginReport.modules;
     this.#log.info('Plugins:');
     for (const module of pluginReport.modules) {
-      this.#log.info(`${module.enabled ? '*' : '-'} ${module.name}: ${module.description}`);
+      this.#log.info(`${module.enabled ? '*' : '-'} ${formatModule(module)}`);
     }
     const attachReport = await this.attach(this.plugins, { type: 'app', app: this });
     this.#log.debug?.('Attachments:', attachReport, this.attachments);
-    await Promise.all([this.discord.setup(this, pluginReport.events), this.home.setup(this)]);
+    await Promise.all([this.discord.setup(this, pluginReport.events, pluginReport.intents), this.home.setup(this)]);
+    await this.admin.setup(this);
     this.#log.info('Ready');
     this.#status = Status.ready;
     this.emit('ready');
@@ -115,12 +149,94 @@ export class App extends PluginAdapter<AppInterface> {
     if (this.#status !== Status.ready) return;
     this.#status = Status.destroying;
     await this.hook('destroy', reason).catch(this.#log.error);
+    this.plugins.unwatch();
+    await this.admin.destroy().catch(this.#log.error);
     await Promise.all([this.discord.destroy().catch(this.#log.error), this.home.destroy().catch(this.#log.error)]);
     await this.data.destroy().catch(this.#log.error);
+    await this.engines.destroy().catch(this.#log.error);
     this.#log.info(`Destroyed by ${reason}`);
     this.#status = Status.destroyed;
   }
 
+  /**
+   * Reload plugins on changes without restarting, for development
+   */
+  watchPlugins(): void {
+    if (this.#status !== Status.ready) return;
+    this.plugins.watch(async (name) => this.reloadPlugin(name), this.#log.error);
+    this.#log.info('Watching plugins');
+  }
+
+  async reloadPlugin(name: string): Promise<void> {
+    if (this.#status !== Status.ready) return;
+    await this.reattach(this.plugins, name, { type: 'app', app: this }, ['reload']);
+    await Promise.all([
+      ...[...this.discord.assistants.values()].map(async (assistant) => assistant.reload(this, name)),
+      this.home.reload(this, name),
+    ]);
+    this.#log.info(`Reloaded plugin: ${name}`);
+  }
+
+  async migrateStore(from: string, to: string): Promise<StoreMigrationReport> {
+    if (this.#status !== Status.unready) throw new Error('Unable to migrate store while running');
+    const [fromName, toName] = [from.replace(/^store-/, ''), to.replace(/^store-/, '')];
+    await this.engines.setup(this, [`store-${fromName}`, `store-${toName}`]);
+    const source = this.engines.maps.store.get(fromName);
+    const target = this.engines.maps.store.get(toName);
+    if (!source || !target) throw new Error(`Missing store engine: ${source ? toName : fromName}`);
+    if (source === target) throw new Error('Same store engines');
+    if (!source.keys) throw new Error(`Unable to list keys: ${fromName}`);
+    const keys = await source.keys();
+    const report: StoreMigrationReport = { total: keys.length, copied: 0, verified: 0, failed: [] };
+    this.#log.info(`Migrating store: ${fromName} -> ${toName} (${keys.length} keys)`);
+    for (const key of keys) {
+      try {
+        const value = await source.get(key);
+        if (!value) throw new Error('No data');
+        if (!(await target.set(key, value))) throw new Error('Unable to save');
+        report.copied++;
+        if (!isDeepStrictEqual(await target.get(key), value)) throw new Error('Unmatched data');
+        report.verified++;
+        this.#log.debug?.(`* ${key}`);
+      } catch (error) {
+        report.failed.push(key);
+        this.#log.error(`- ${key}:`, error);
+      }
+    }
+    const { total, copied, verified, failed } = report;
+    this.#log.info(`Migrated store: total ${total}, copied ${copied}, verified ${verified}, failed ${failed.length}`);
+    await this.engines.destroy();
+    return report;
+  }
+
+  #initializeMetrics(): void {
+    const metrics = this.metrics;
+    metrics.define('app_status', 'gauge', 'Status of the app');
+    metrics.define('discord_shard_status', 'gauge', 'Status of the Discord shard');
+    metrics.define('discord_shard_ping_seconds', 'gauge', 'Heartbeat ping of the Discord shard');
+    metrics.define('engine_request_seconds', 'summary', 'Latency of the engine requests, after the audio for STT');
+    metrics.define('engine_request_errors_total', 'counter', 'Number of the failed engine requests');
+    metrics.define('engine_state', 'gauge', 'Failover state of the engine');
+    metrics.define('guild_queue_depth', 'gauge', 'Number of queued audios in the guild voice channel');
+    metrics.define('commands_total', 'counter', 'Number of executed commands by result');
+    metrics.collect(() => {
+      metrics.set('app_status', { status: this.status }, 1);
+      for (const { id, status, ping } of this.discord.shards) {
+        metrics.set('discord_shard_status', { shard: `${id}`, status }, 1);
+        if (ping >= 0) metrics.set('discord_shard_ping_seconds', { shard: `${id}` }, ping / 1000);
+      }
+      for (const [type, map] of Object.entries(this.engines.health)) {
+        for (const { name, state } of map.values()) {
+          metrics.set('engine_state', { type, name, state }, 1);
+        }
+      }
+      for (const assistant of this.discord.assistants.values()) {
+        const queue = assistant.voiceState?.queue ?? 0;
+        metrics.set('guild_queue_depth', { guild: assistant.guild.id }, queue);
+      }
+    });
+  }
+
   static argv(): Argv {
     const argv: Argv = {};
     let name: string | undefined;
@@ -145,6 +261,7 @@ export class App extends PluginAdapter<AppInterface> {
 
   static di(env: Env, debug = false): DI {
     const log = new Logger({ ...env.log, ...(debug ? { level: 'debug' } : {}) });
+    const metrics = new Metrics();
     const engines = new EngineManager(env.engines, new ModuleLoader('engine', EnginePaths));
     const plugins = new PluginManager(env.plugins, new ModuleLoader('plugin', PluginPaths));
     const discord = new DiscordManager(env.discord, {
@@ -155,7 +272,8 @@ export class App extends PluginAdapter<AppInterface> {
       { locale: env.locale, ...env.assistant, ...env.home },
       { data: new Datastore('home'), log, engines },
     );
-    return { data: new Datastore('app'), log, engines, plugins, discord, home };
+    const admin = new AdminServer(env.admin);
+    return { data: new Datastore('app'), log, metrics, engines, plugins, discord, home, admin };
   }
 
   static build(locale: Locale, di: DI): App {
@@ -173,13 +291,29 @@ export class App extends PluginAdapter<AppInterface> {
 
   static launch(app?: App): void {
     (async () => {
+      const argv = App.argv();
       if (!app) {
-        const argv = App.argv();
         const env = await App.env(argv['env']?.[0]);
         const di = App.di(env, !!argv['debug']);
         app = App.build(env.locale, di);
       }
       await app.setup();
+      if (argv['watch']) app.watchPlugins();
+    })().catch(App.onFatal);
+  }
+
+  // --migrate-store <from>=<to>, e.g. --migrate-store local=firestore
+  static migrate(): void {
+    (async () => {
+      const argv = App.argv();
+      const [from, to] = argv['migrate-store']?.[0]?.split('=') ?? [];
+      if (!from || !to) throw new Error('Invalid arguments: --migrate-store <from>=<to>');
+      const env = await App.env(argv['env']?.[0]);
+      const di = App.di(env, !!argv['debug']);
+      const app = new App(env.locale, di); // no signal handlers to exit after migration
+      const report = await app.migrateStore(from, to);
+      // eslint-disable-next-line unicorn/no-process-exit
+      process.exit(report.failed.length > 0 ? 1 : 0); // some store clients keep the process alive
     })().catch(App.onFatal);
   }
 
@@ -1,14 +1,26 @@
 import { readFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { Readable } from 'node:stream';
-import { isLanguage, isRegionLocale, omitObject, toLanguage, toRegionLocales } from '../utils';
+import {
+  editDistance,
+  escapeRegExp,
+  isLanguage,
+  isRegionLocale,
+  normalizeSpeech,
+  omitObject,
+  parseSlot,
+  toLanguage,
+  toRegionLocales,
+} from '../utils';
 import type { EngineManager } from './EngineManager';
 import { EventEmitter } from './EventEmitter';
 import type { Logger } from './Logger';
 import type { AttachedCommand, PluginInterface } from './PluginAdapter';
 import { PluginAdapter } from './PluginAdapter';
 
-const DefaultActivationWord: I18n<{ example: string; patterns: string[] }> = {
+type ActivationWord = I18n<{ example: string; patterns: string[] }>;
+
+const DefaultActivationWord: ActivationWord = {
   en: {
     example: 'OK assistant, ',
     patterns: ['assistant', 'assistance'],
@@ -23,6 +35,14 @@ const DefaultActivationWord: I18n<{ example: string; patterns: string[] }> = {
   },
 };
 
+// transcripts in Japanese are less accurate
+const DefaultFuzzyThreshold: I18n<number> = { en: 0.8, ja: 0.7, zh: 0.8 };
+
+const FallbackFuzzyThreshold = 0.8;
+
+// patterns without RegExp syntax can be compared fuzzily
+const LiteralPattern = /^[^$()*+.?[\\\]^{|}]+$/;
+
 // https://freesound.org/people/pan14/packs/16196/
 const BeepSound = {
   success: readFileSync(join(__dirname, '../../../assets/ogg/beep/success.ogg')), // 263124
@@ -31,8 +51,45 @@ const BeepSound = {
 
 type CommandInterpreter = AttachedCommand & {
   parsers: Map<Locale, { pattern: RegExp; options: Record<string, number> }[]>;
+  phrases: Map<Locale, string[]>; // normalized examples and literal patterns of the commands without options
 };
 
+function createActivation(word: ActivationWord): { examples: I18n<string>; pattern: RegExp; words: string[] } {
+  return {
+    examples: Object.fromEntries(Object.entries(word).map(([locale, { example }]) => [locale, example])),
+    pattern: new RegExp(
+      `(${Object.values(word)
+        .map(({ patterns }) => patterns.join('|'))
+        .join('|')})(.*)`,
+      'is',
+    ),
+    words: Object.values(word)
+      .flatMap(({ patterns }) => patterns.filter((pattern) => LiteralPattern.test(pattern)))
+      .map((pattern) => normalizeSpeech(pattern))
+      .filter((word) => word.length > 0),
+  };
+}
+
+function similarity(a: string, b: string): number {
+  return 1 - editDistance(a, b) / Math.max([...a].length, [...b].length, 1);
+}
+
+// find the part most similar to one of the words, e.g. "assistant" in "ok assistan play"
+function findFuzzily(text: string, words: string[]): { score: number; rest: string } | undefined {
+  const chars = [...text];
+  let best: { score: number; end: number } | undefined;
+  for (const word of words) {
+    const length = [...word].length;
+    for (let start = 0; start < chars.length; start++) {
+      for (let size = Math.max(1, length - 1); size <= length + 1 && start + size <= chars.length; size++) {
+        const score = similarity(chars.slice(start, start + size).join(''), word);
+        if (!best || score > best.score) best = { score, end: start + size };
+      }
+    }
+  }
+  return best && { score: best.score, rest: chars.slice(best.end).join('') };
+}
+
 export type IAudioPlayer = {
   readonly active: boolean;
   play(audio: PlayableAudio): boolean;
@@ -42,8 +99,12 @@ export type IAudioPlayer = {
 
 export type InterpretedCommand = AttachedCommand & {
   locale: Locale;
-  options: Record<string, string>;
+  options: Record<string, CommandSlotValue>;
   script: string;
+  /**
+   * 1 for an exact match, less for a fuzzy one
+   */
+  score: number;
 };
 
 export type AssistantOptions = {
@@ -65,6 +126,16 @@ export type AssistantOptions = {
       patterns: string[];
     }>;
   };
+  /**
+   * Fuzzy matching settings for voice commands
+   */
+  fuzzy?: {
+    /**
+     * Min score of a match from 0 to 1 for each locale, 1 to disable it
+     * @default { en: 0.8, ja: 0.7, zh: 0.8 }
+     */
+    threshold?: I18n<number>;
+  };
 };
 
 export abstract class Assistant<T extends PluginInterface> extends PluginAdapter<T> {
@@ -74,28 +145,43 @@ export abstract class Assistant<T extends PluginInterface> extends PluginAdapter
   readonly defaultTTS: { name: string; locale: Locale; voice: string; speed: number; pitch: number };
   readonly defaultSTT: { name: string; locale: Locale; voice: string };
   readonly activation: { examples: I18n<string>; pattern: RegExp };
+  readonly #activationWord: ActivationWord;
   readonly #interpreters: CommandInterpreter[];
+  readonly #fuzzy: { words: string[]; threshold: I18n<number> };
 
   constructor(options: AssistantOptions, errorHandler: ErrorHandler) {
     super(errorHandler);
     this.defaultTTS = { name: '', locale: 'en', voice: '', speed: 10, pitch: 10 };
     this.defaultSTT = { name: '', locale: 'en', voice: '' };
-    const activationWord = options.activation?.word ?? DefaultActivationWord;
-    this.activation = {
-      examples: Object.fromEntries(Object.entries(activationWord).map(([locale, { example }]) => [locale, example])),
-      pattern: new RegExp(
-        `(${Object.values(activationWord)
-          .map(({ patterns }) => patterns.join('|'))
-          .join('|')})(.*)`,
-        'is',
-      ),
-    };
+    this.#activationWord = options.activation?.word ?? DefaultActivationWord;
+    const { examples, pattern, words } = createActivation(this.#activationWord);
+    this.activation = { examples, pattern };
     this.#interpreters = [];
+    this.#fuzzy = { words, threshold: { ...DefaultFuzzyThreshold, ...options.fuzzy?.threshold } };
+  }
+
+  /**
+   * Replace the activation words of every locale with a word, or restore the ones in the settings without it
+   */
+  setActivationWord(word?: string): void {
+    const activationWord = word
+      ? Object.fromEntries(
+          Object.entries(this.#activationWord).map(([locale, { example }]) => {
+            const separator = example.match(/[\s\p{P}]+$/u)?.[0] ?? ' '; // e.g. ", " of "OK assistant, "
+            return [locale, { example: `${word}${separator}`, patterns: [escapeRegExp(word)] }];
+          }),
+        )
+      : this.#activationWord;
+    const { examples, pattern, words } = createActivation(activationWord);
+    this.activation.examples = examples;
+    this.activation.pattern = pattern;
+    // the escaped word is not literal any more
+    this.#fuzzy.words = word ? [normalizeSpeech(word)].filter((w) => w.length > 0) : words;
   }
 
   protected initializeAssistant(): void {
     this.#initializeDefaultConfigs();
-    this.#initializeInterpreters();
+    this.initializeInterpreters();
   }
 
   #initializeDefaultConfigs(): void {
@@ -116,7 +202,8 @@ export abstract class Assistant<T extends PluginInterface> extends PluginAdapter
     }
   }
 
-  #initializeInterpreters(): void {
+  protected initializeInterpreters(): void {
+    this.#interpreters.splice(0); // initialized again on reattaching plugins
     const locales = new Set<Locale>();
     for (const locale of [this.locale, ...(Object.keys(this.activation.examples) as Locale[])]) {
       locales.add(locale);
@@ -129,10 +216,18 @@ export abstract class Assistant<T extends PluginInterface> extends PluginAdapter
       }
     }
     for (const { id, name, plugin, execute } of this.commands.values()) {
-      const interpreter: CommandInterpreter = { id, name, plugin, execute, parsers: new Map() };
+      const interpreter: CommandInterpreter = { id, name, plugin, execute, parsers: new Map(), phrases: new Map() };
       for (const locale of locales) {
-        const patterns = plugin.i18n[locale]?.command?.[name]?.patterns;
-        if (!patterns) continue;
+        const metadata = plugin.i18n[locale]?.command?.[name];
+        if (!metadata) continue;
+        const patterns = metadata.patterns;
+        const formats = patterns.map((pattern) => (typeof pattern === 'string' ? pattern : undefined));
+        if (formats.every((format): format is string => format !== undefined)) {
+          const phrases = [metadata.example, ...formats.filter((format) => LiteralPattern.test(format))]
+            .map((phrase) => normalizeSpeech(phrase))
+            .filter((phrase) => phrase.length > 0);
+          interpreter.phrases.set(locale, [...new Set(phrases)]);
+        }
         interpreter.parsers.set(
           locale,
           patterns
@@ -155,36 +250,82 @@ export abstract class Assistant<T extends PluginInterface> extends PluginAdapter
     );
   }
 
-  interpret(text: string): InterpretedCommand | null {
-    const matched = text.match(this.activation.pattern);
-    if (!matched) return null;
+  /**
+   * Interpret the text as a command, voice transcripts are compared fuzzily as well if they don't match exactly
+   * @param activation `false` to match voice transcripts as a whole without the activation word
+   */
+  interpret(text: string, type: 'text' | 'voice' = 'text', activation = true): InterpretedCommand | null {
+    const matched = activation || type === 'text' ? text.match(this.activation.pattern) : [text];
+    if (!matched) {
+      return type === 'voice' ? this.#interpretFuzzily(findFuzzily(normalizeSpeech(text), this.#fuzzy.words)) : null;
+    }
     const script = matched.at(-1);
     if (!script) return null;
     for (const interpreter of this.#interpreters) {
       for (const [locale, parsers] of interpreter.parsers) {
         for (const parser of parsers) {
           const matched = script.match(parser.pattern);
-          if (matched) {
-            return {
-              id: interpreter.id,
-              name: interpreter.name,
-              plugin: interpreter.plugin,
-              execute: interpreter.execute,
-              locale: locale,
-              options: Object.fromEntries(
-                Object.entries(parser.options).map((option) => [option[0], matched[option[1]] ?? '']),
-              ),
-              script,
-            };
-          }
+          if (!matched) continue;
+          // e.g. "leave" in a dictation is not a command
+          if (!activation && type === 'voice' && normalizeSpeech(matched[0]) !== normalizeSpeech(script)) continue;
+          const options = this.#parseOptions(interpreter, parser.options, matched);
+          if (!options) continue; // invalid slots
+          return {
+            id: interpreter.id,
+            name: interpreter.name,
+            plugin: interpreter.plugin,
+            execute: interpreter.execute,
+            locale: locale,
+            options,
+            script,
+            score: 1,
+          };
+        }
+      }
+    }
+    return type === 'voice' ? this.#interpretFuzzily({ score: 1, rest: normalizeSpeech(script) }) : null;
+  }
+
+  #interpretFuzzily(activation: { score: number; rest: string } | undefined): InterpretedCommand | null {
+    if (!activation || activation.rest.length === 0) return null;
+    let best: InterpretedCommand | null = null;
+    for (const interpreter of this.#interpreters) {
+      for (const [locale, phrases] of interpreter.phrases) {
+        const threshold =
+          this.#fuzzy.threshold[locale] ?? this.#fuzzy.threshold[toLanguage(locale)] ?? FallbackFuzzyThreshold;
+        for (const phrase of phrases) {
+          const score = activation.score * similarity(activation.rest, phrase);
+          if (score < threshold || (best && score <= best.score)) continue;
+          const { id, name, plugin, execute } = interpreter;
+          best = { id, name, plugin, execute, locale, options: {}, script: activation.rest, score };
         }
       }
     }
-    return null;
+    return best;
+  }
+
+  #parseOptions(
+    command: AttachedCommand,
+    indexes: Record<string, number>,
+    matched: RegExpMatchArray,
+  ): Record<string, CommandSlotValue> | undefined {
+    const options: Record<string, CommandSlotValue> = {};
+    for (const [name, index] of Object.entries(indexes)) {
+      const text = matched[index] ?? '';
+      const slot = command.plugin.slots?.[command.name]?.[name];
+      const value = slot ? this.parseSlot(slot, text) : text;
+      if (value === undefined) return undefined;
+      options[name] = value;
+    }
+    return options;
+  }
+
+  protected parseSlot(slot: CommandSlot, text: string): CommandSlotValue | undefined {
+    return parseSlot(slot, text);
   }
 
-  async translate(request: TranslatorRequest): Promise<TranslatorResponse> {
-    const translator = this.engines.getTranslator({ language: request });
+  async translate(request: TranslatorRequest, glossary?: TranslatorGlossary): Promise<TranslatorResponse> {
+    const translator = this.engines.getTranslator({ language: request, glossary });
     return translator.translate(request);
   }
 
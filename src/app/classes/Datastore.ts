@@ -2,6 +2,8 @@ import { isObject } from '../utils';
 
 const DefaultDelay = 60_000;
 
+const VersionsKey = 'versions';
+
 enum Status {
   unready,
   preparing,
@@ -87,6 +89,35 @@ export class Datastore<T extends keyof PluginData = 'default'> {
     return this.save(delay);
   }
 
+  // run pending migrations of the property, and record the applied version
+  async migrate(key: string, schema?: PluginDataSchema): Promise<number> {
+    if (!schema) return 1;
+    const prevVersion = isProperty(this.props[VersionsKey]) ? this.props[VersionsKey][key] : undefined;
+    let version = typeof prevVersion === 'number' ? prevVersion : 1;
+    let data = this.props[key];
+    if (data === undefined) {
+      version = schema.version; // nothing to migrate
+    } else if (isProperty(data)) {
+      for (; version < schema.version; version++) {
+        const migration = schema.migrations[version + 1];
+        try {
+          if (migration) data = await migration(data);
+        } catch (error) {
+          this.#error?.('migrate', error);
+          break;
+        }
+      }
+    }
+    if (version === prevVersion) return version;
+    if (data !== undefined) this.props[key] = data;
+    // read again since other properties might be migrated meanwhile
+    const versions = this.props[VersionsKey];
+    this.props[VersionsKey] = { ...(isProperty(versions) ? versions : {}), [key]: version };
+    this.#changed = true;
+    this.save(0);
+    return version;
+  }
+
   save(delay?: number): boolean {
     if (this.#status !== Status.ready) return false;
     if (!this.#engine || delay === Number.POSITIVE_INFINITY) return true;
@@ -109,15 +140,28 @@ export class Datastore<T extends keyof PluginData = 'default'> {
       : U;
   }
 
+  /**
+   * Subscribe to the changes of the property
+   * @returns a function to unsubscribe, to be called in `beforeDestroy` of plugins not to be left after reloading
+   */
   subscribe<P extends string>(
     key: P,
     subscriber: (
       value: (P extends keyof PluginData[T] ? Partial<PluginData[T][P]> : BasicValue) | undefined,
     ) => Awaitable<void>,
-  ): void {
+  ): () => void {
     let subscribers = this.#subscribers.get(key);
     if (!subscribers) this.#subscribers.set(key, (subscribers = []));
-    subscribers.push(subscriber as (value: BasicValue | undefined) => Awaitable<void>);
+    const handler = subscriber as (value: BasicValue | undefined) => Awaitable<void>;
+    subscribers.push(handler);
+    return () => {
+      const list = this.#subscribers.get(key)?.filter((s) => s !== handler) ?? [];
+      if (list.length > 0) {
+        this.#subscribers.set(key, list);
+      } else {
+        this.#subscribers.delete(key);
+      }
+    };
   }
 
   unsubscribe(key: string): boolean {
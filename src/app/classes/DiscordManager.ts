@@ -9,7 +9,7 @@ import type {
   Message,
   NonThreadGuildBasedChannel,
 } from 'discord.js';
-import { ActivityType, IntentsBitField, Partials } from 'discord.js';
+import { ActivityType, IntentsBitField, Partials, Status as ShardStatus } from 'discord.js';
 import { sleep } from '../utils';
 import type { App } from './App';
 import type { GuildAssistantManager } from './GuildAssistantManager';
@@ -111,6 +111,8 @@ export class DiscordManager<Ready extends boolean = boolean> {
   readonly #options: DiscordManagerOptions | undefined;
   readonly #intentNames: Set<GatewayIntentsString>;
   readonly #eventNames: Set<keyof ClientEvents>;
+  readonly #handledEventNames: Set<keyof ClientEvents>;
+  readonly #undeclaredEventNames: Set<string>;
   #status: Status;
 
   constructor(options: DiscordManagerOptions | undefined, di: { client: Client; assistants: GuildAssistantManager }) {
@@ -119,10 +121,12 @@ export class DiscordManager<Ready extends boolean = boolean> {
     this.#options = options;
     this.#intentNames = new Set(DefaultIntentNames);
     this.#eventNames = new Set(DefaultEventNames);
+    this.#handledEventNames = new Set();
+    this.#undeclaredEventNames = new Set();
     this.#status = Status.unready;
   }
 
-  async setup(app: App, eventNames: DiscordEventNames): Promise<void> {
+  async setup(app: App, eventNames: DiscordEventNames, intentNames: GatewayIntentsString[] = []): Promise<void> {
     if (this.#status !== Status.unready || !this.#options) return;
     this.#status = Status.preparing;
     const log = app.log.createChild('DISCORD');
@@ -141,6 +145,9 @@ export class DiscordManager<Ready extends boolean = boolean> {
         this.#intentNames.add(intent as GatewayIntentsString);
       }
     }
+    for (const intent of intentNames) {
+      this.#intentNames.add(intent);
+    }
     // https://discordjs.guide/popular-topics/partials.html
     this.client.options.partials = Object.values(Partials).filter((value) => typeof value === 'number') as Partials[];
     this.client.options.intents = new IntentsBitField([...this.#intentNames]);
@@ -153,6 +160,10 @@ export class DiscordManager<Ready extends boolean = boolean> {
         log.info(`Logged in as ${client.user.id} ${client.user.tag}`);
         Promise.all(client.guilds.cache.map(async (guild) => this.assistants.add(app, guild)))
           .then(() => {
+            this.#checkEventNames(log, 'app', app);
+            for (const assistant of this.assistants.values()) {
+              this.#checkEventNames(log, 'guild', assistant);
+            }
             this.#status = Status.ready;
             this.resetActivity();
             resolve();
@@ -172,6 +183,14 @@ export class DiscordManager<Ready extends boolean = boolean> {
     this.#status = Status.destroyed;
   }
 
+  get shards(): { id: number; status: keyof typeof ShardStatus; ping: number }[] {
+    return this.client.ws.shards.map(({ id, status, ping }) => ({
+      id,
+      status: ShardStatus[status] as keyof typeof ShardStatus,
+      ping,
+    }));
+  }
+
   isReady(): this is this & DiscordManager<true> {
     return this.#status === Status.ready;
   }
@@ -185,10 +204,29 @@ export class DiscordManager<Ready extends boolean = boolean> {
   }
 
   #on<P extends keyof ClientEvents>(eventName: P, listener: (...args: ClientEvents[P]) => Awaitable<void>): void {
+    this.#handledEventNames.add(eventName);
     if (!this.#eventNames.has(eventName)) return;
     this.client.on(eventName, listener);
   }
 
+  // handlers of unsubscribed events are never called, warn once for each plugin and event
+  #checkEventNames(
+    log: Logger,
+    adapter: keyof DiscordEventNames,
+    target: { subscriptions: Map<string, string[]> },
+  ): void {
+    for (const [pluginName, names] of target.subscriptions) {
+      for (const name of names as (keyof ClientEvents)[]) {
+        const key = `${adapter}:${pluginName}:${name}`;
+        if (!this.#handledEventNames.has(name) || this.#eventNames.has(name) || this.#undeclaredEventNames.has(key)) {
+          continue;
+        }
+        this.#undeclaredEventNames.add(key);
+        log.warn(`Undeclared event: ${pluginName} handles "${name}" in ${adapter}, add it to \`events.${adapter}\``);
+      }
+    }
+  }
+
   #initializeEvents(app: App, log: Logger): void {
     const assistants = this.assistants;
     /*
@@ -244,6 +282,10 @@ export class DiscordManager<Ready extends boolean = boolean> {
       }
       const assistant = assistants.get(message.guild.id);
       if (!assistant) return;
+      if (!message.author.bot && assistant.answer(message.author.id, message.content, message.channelId)) {
+        assistant.emit('messageCreate', message, true);
+        return;
+      }
       const command = message.author.bot ? null : assistant.interpret(message.content);
       assistant.emit('messageCreate', message, !!command);
       if (command) assistant.run({ type: 'text', command, source: message });
@@ -304,7 +346,10 @@ export class DiscordManager<Ready extends boolean = boolean> {
      */
     this.#on('guildCreate', async (guild) => {
       await assistants.add(app, guild);
-      assistants.get(guild.id)?.emit('guildCreate', guild);
+      const assistant = assistants.get(guild.id);
+      if (!assistant) return;
+      this.#checkEventNames(log, 'guild', assistant);
+      assistant.emit('guildCreate', guild);
     });
     this.#on('guildDelete', async (guild) => {
       assistants.get(guild.id)?.emit('guildDelete', guild);
@@ -0,0 +1,154 @@
+const DefaultThreshold = 3;
+
+const DefaultCooldown = 30 * 1000;
+
+const DefaultMaxCooldown = 10 * 60 * 1000;
+
+export type EngineHealthOptions = {
+  /**
+   * Number of consecutive errors to skip the engine
+   * @default 3
+   */
+  threshold?: number;
+  /**
+   * Time to skip the engine in milliseconds, doubled each time the trial request fails
+   * @default 30_000
+   */
+  cooldown?: number;
+  /**
+   * Max time to skip the engine in milliseconds
+   * @default 600_000
+   */
+  maxCooldown?: number;
+};
+
+/**
+ * - closed: healthy
+ * - open: skipped until the cooldown ends
+ * - half-open: a single trial request after the cooldown, closed by a success or opened again by an error
+ */
+export type EngineState = 'closed' | 'open' | 'half-open';
+
+export type EngineStateChange = {
+  type: 'translator' | 'tts' | 'stt';
+  name: string;
+  state: EngineState;
+  prevState: EngineState;
+  errors: number;
+  cooldown: number;
+  error?: unknown;
+};
+
+export class EngineHealth {
+  readonly type: EngineStateChange['type'];
+  readonly name: string;
+  readonly #threshold: number;
+  readonly #cooldown: number;
+  readonly #maxCooldown: number;
+  readonly #onChange: (change: EngineStateChange) => void;
+  #state: EngineState;
+  #failures: number;
+  #errors: number;
+  #successes: number;
+  #cooldownTime: number;
+  #openedAt: number;
+  #trial: boolean;
+
+  constructor(
+    type: EngineStateChange['type'],
+    name: string,
+    options: EngineHealthOptions = {},
+    onChange: (change: EngineStateChange) => void = () => {},
+  ) {
+    this.type = type;
+    this.name = name;
+    this.#threshold = options.threshold ?? DefaultThreshold;
+    this.#cooldown = options.cooldown ?? DefaultCooldown;
+    this.#maxCooldown = options.maxCooldown ?? DefaultMaxCooldown;
+    this.#onChange = onChange;
+    this.#state = 'closed';
+    this.#failures = 0;
+    this.#errors = 0;
+    this.#successes = 0;
+    this.#cooldownTime = 0;
+    this.#openedAt = 0;
+    this.#trial = false;
+  }
+
+  get state(): EngineState {
+    return this.#state;
+  }
+
+  get stats(): { state: EngineState; successes: number; errors: number; cooldown: number } {
+    return { state: this.#state, successes: this.#successes, errors: this.#errors, cooldown: this.#cooldownTime };
+  }
+
+  isAvailable(): boolean {
+    if (this.#state === 'open' && Date.now() - this.#openedAt >= this.#cooldownTime) this.#change('half-open');
+    return this.#state === 'closed' || (this.#state === 'half-open' && !this.#trial);
+  }
+
+  /**
+   * Mark a request as started, the trial one while half-open
+   */
+  start(): void {
+    if (this.#state === 'half-open') this.#trial = true;
+  }
+
+  /**
+   * Mark a request as finished without a result, e.g. aborted by the caller
+   */
+  cancel(): void {
+    this.#trial = false;
+  }
+
+  success(): void {
+    this.#trial = false;
+    this.#successes++;
+    this.#failures = 0;
+    if (this.#state === 'closed') return;
+    this.#cooldownTime = 0;
+    this.#change('closed');
+  }
+
+  failure(error?: unknown): void {
+    this.#trial = false;
+    this.#errors++;
+    this.#failures++;
+    if (this.#state === 'open') return;
+    if (this.#state === 'closed' && this.#failures < this.#threshold) return;
+    this.#cooldownTime =
+      this.#state === 'half-open' ? Math.min(this.#cooldownTime * 2, this.#maxCooldown) : this.#cooldown;
+    this.#openedAt = Date.now();
+    this.#change('open', error);
+  }
+
+  track<T extends unknown[], U>(fn: (...args: T) => Promise<U>): (...args: T) => Promise<U> {
+    return async (...args) => {
+      this.start();
+      try {
+        const result = await fn(...args);
+        this.success();
+        return result;
+      } catch (error) {
+        this.failure(error);
+        throw error;
+      }
+    };
+  }
+
+  #change(state: EngineState, error?: unknown): void {
+    const prevState = this.#state;
+    this.#state = state;
+    const change: EngineStateChange = {
+      type: this.type,
+      name: this.name,
+      state,
+      prevState,
+      errors: this.#failures,
+      cooldown: this.#cooldownTime,
+    };
+    if (error !== undefined) change.error = error;
+    this.#onChange(change);
+  }
+}
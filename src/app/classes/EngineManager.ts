@@ -1,7 +1,13 @@
 import { Readable } from 'node:stream';
-import { isRegionLocale, toLanguage } from '../utils';
+import { isRegionLocale, protectTerms, toLanguage } from '../utils';
 import type { App } from './App';
+import type { EngineHealthOptions, EngineStateChange } from './EngineHealth';
+import { EngineHealth } from './EngineHealth';
+import { EventEmitter } from './EventEmitter';
+import type { Logger } from './Logger';
 import type { ModuleLoader, ModuleReport } from './ModuleLoader';
+import { TranslatorCache } from './TranslatorCache';
+import { TTSCache } from './TTSCache';
 
 function generateDefaultVoices(engine: { locales: I18n<Record<string, string>>; defaultVoices: I18n<string> }): void {
   for (const [locale, voices] of Object.entries(engine.locales) as [Locale, Record<string, string>][]) {
@@ -13,27 +19,42 @@ function generateDefaultVoices(engine: { locales: I18n<Record<string, string>>;
   }
 }
 
-function selectVoiceEngine<T extends ITextToSpeech | ISpeechToText>(
-  dummy: T,
+function findVoiceEngine<T extends ITextToSpeech | ISpeechToText>(
   map: Map<string, T>,
   list: T[],
-  query?: { name?: string; locale?: Locale },
-): T {
+  query: { name?: string; locale?: Locale } | undefined,
+  isAvailable: (engine: T) => boolean,
+): T | undefined {
   let engine = query?.name ? map.get(query.name) : undefined;
-  if (!engine?.active) {
+  if (!engine?.active || !isAvailable(engine)) {
     const locale = query?.locale;
     if (locale) {
       if (isRegionLocale(locale)) {
         const lang = toLanguage(locale);
-        engine = list.find(({ active, defaultVoices }) => active && (defaultVoices[locale] ?? defaultVoices[lang]));
+        engine = list.find((e) => e.active && (e.defaultVoices[locale] ?? e.defaultVoices[lang]) && isAvailable(e));
       } else {
-        engine = list.find(({ active, defaultVoices }) => active && defaultVoices[locale]);
+        engine = list.find((e) => e.active && e.defaultVoices[locale] && isAvailable(e));
       }
     } else {
-      engine = list.find(({ active }) => active);
+      engine = list.find((e) => e.active && isAvailable(e));
     }
   }
-  return engine ?? dummy;
+  return engine;
+}
+
+// failing engines are skipped, but used if there are no other engines
+function selectVoiceEngine<T extends ITextToSpeech | ISpeechToText>(
+  dummy: T,
+  map: Map<string, T>,
+  list: T[],
+  query: { name?: string; locale?: Locale } | undefined,
+  health: Map<string, EngineHealth>,
+): T {
+  return (
+    findVoiceEngine(map, list, query, (e) => health.get(e.name)?.isAvailable() ?? true) ??
+    findVoiceEngine(map, list, query, () => true) ??
+    dummy
+  );
 }
 
 const DummyEngines: EngineSet = {
@@ -91,6 +112,8 @@ type EngineSet = {
   stt: ISpeechToText;
 };
 
+type EngineConfig = EngineOptions & BasicObject;
+
 type EngineCreator = {
   name: string;
   description: string;
@@ -103,17 +126,27 @@ type EngineCreator = {
 
 export type EngineManagerOptions = Partial<AvailableEngines>;
 
-export class EngineManager {
+type Events = {
+  stateChange: [change: EngineStateChange];
+};
+
+export class EngineManager extends EventEmitter<Events> {
   readonly dummy: EngineSet;
   readonly maps: { readonly [P in keyof EngineSet]: Map<string, EngineSet[P]> };
+  readonly caches: { readonly translator: Map<string, TranslatorCache>; readonly tts: Map<string, TTSCache> };
+  readonly health: { readonly [P in Exclude<keyof EngineSet, 'store'>]: Map<string, EngineHealth> };
   readonly #lists: { readonly [P in keyof EngineSet]: EngineSet[P][] };
   readonly #options: EngineManagerOptions;
   readonly #loader: ModuleLoader<IEngine, EngineCreator>;
+  #log: Logger | undefined;
   #status: Status;
 
   constructor(options: EngineManagerOptions, loader: ModuleLoader) {
+    super();
     this.dummy = DummyEngines;
     this.maps = { store: new Map(), translator: new Map(), tts: new Map(), stt: new Map() };
+    this.caches = { translator: new Map(), tts: new Map() };
+    this.health = { translator: new Map(), tts: new Map(), stt: new Map() };
     this.#lists = { store: [], translator: [], tts: [], stt: [] };
     this.#options = options;
     this.#loader = loader as ModuleLoader<IEngine, EngineCreator>;
@@ -124,20 +157,38 @@ export class EngineManager {
     return { modules: this.#loader.createReport(this.#options) };
   }
 
-  async setup(app: App): Promise<SetupReport> {
+  /**
+   * @param names full names of the engines to set up, all configured ones if omitted
+   */
+  async setup(app: App, names?: string[]): Promise<SetupReport> {
     if (this.#status !== Status.unready) return this.#report;
     this.#status = Status.preparing;
-    await this.#loader.load((source) => ({ config: {}, ...source })); // might have config at runtime and overwrite
+    this.#log = app.log.createChild('ENGINE');
+    const metrics = app.metrics;
+    const entries = (Object.entries(this.#options) as [string, EngineConfig | true][]).filter(
+      ([fullName]) => !names || names.includes(fullName),
+    );
+    // might have config at runtime and overwrite
+    await this.#loader.load(
+      (source) => ({ config: {}, ...source }),
+      entries.map(([fullName]) => fullName),
+    );
     const promises: Promise<() => void>[] = [];
-    for (const [fullName, config] of Object.entries(this.#options)) {
+    for (const [fullName, options] of entries) {
       const creator = this.#loader.get(fullName);
       const name = fullName.replace(/^\w+-/, '');
       if (!creator || !name) continue;
-      const context = { app, config: config === true ? creator.config : { ...creator.config, ...config } };
+      const { cache, health: healthOptions, ...config } = options === true ? ({} as EngineConfig) : options;
+      if (cache && !creator.createTranslator && !creator.createTTS) {
+        throw new Error(`Unsupported cache option, only for translator and TTS engines: ${fullName}`);
+      }
+      const context = { app, config: { ...creator.config, ...config } };
       promises.push(
         (async () => {
           if (creator.createStore) {
             const engine = { ...(await creator.createStore(context)), name };
+            engine.get = metrics.track('engine_request', { type: 'store', name }, engine.get.bind(engine));
+            engine.set = metrics.track('engine_request', { type: 'store', name }, engine.set.bind(engine));
             return () => {
               this.maps.store.set(name, engine);
               this.#lists.store.push(engine);
@@ -145,6 +196,14 @@ export class EngineManager {
           }
           if (creator.createTranslator) {
             const engine = { ...(await creator.createTranslator(context)), name };
+            const health = this.#createHealth('translator', name, healthOptions);
+            engine.translate = health.track(engine.translate.bind(engine));
+            engine.translate = metrics.track('engine_request', { type: 'translator', name }, engine.translate);
+            if (cache) {
+              const translatorCache = new TranslatorCache(name, cache === true ? {} : cache);
+              engine.translate = translatorCache.wrap(engine.translate.bind(engine));
+              this.caches.translator.set(name, translatorCache);
+            }
             return () => {
               this.maps.translator.set(name, engine);
               this.#lists.translator.push(engine);
@@ -153,6 +212,15 @@ export class EngineManager {
           if (creator.createTTS) {
             const engine = { ...(await creator.createTTS(context)), name, defaultVoices: {} };
             generateDefaultVoices(engine);
+            const health = this.#createHealth('tts', name, healthOptions);
+            engine.generate = health.track(engine.generate.bind(engine));
+            engine.generate = metrics.track('engine_request', { type: 'tts', name }, engine.generate);
+            if (cache) {
+              const ttsCache = new TTSCache(name, cache === true ? {} : cache);
+              await ttsCache.setup();
+              engine.generate = ttsCache.wrap(engine.generate.bind(engine));
+              this.caches.tts.set(name, ttsCache);
+            }
             return () => {
               this.maps.tts.set(name, engine);
               this.#lists.tts.push(engine);
@@ -161,6 +229,46 @@ export class EngineManager {
           if (creator.createSTT) {
             const engine = { ...(await creator.createSTT(context)), name, defaultVoices: {} };
             generateDefaultVoices(engine);
+            const health = this.#createHealth('stt', name, healthOptions);
+            const transcribe = engine.transcribe.bind(engine);
+            engine.transcribe = (request) => {
+              const fail = (error?: unknown): void => {
+                metrics.increment('engine_request_errors_total', { type: 'stt', name });
+                health.failure(error);
+              };
+              let result = false;
+              health.start();
+              try {
+                result = transcribe(request);
+              } catch (error) {
+                fail(error);
+                throw error;
+              }
+              if (!result) {
+                fail();
+                return result;
+              }
+              // judged by the end of the recognition, and measured from the end of the audio
+              const audio = request.audio;
+              let closedAt = performance.now();
+              audio.resource.once('close', () => void (closedAt = performance.now()));
+              const onEnd = (): void => {
+                audio.off('abort', onAbort);
+                metrics.observe('engine_request_seconds', { type: 'stt', name }, (performance.now() - closedAt) / 1000);
+                health.success();
+              };
+              const onAbort = (error?: unknown): void => {
+                audio.off('end', onEnd);
+                if (error === undefined) {
+                  health.cancel();
+                } else {
+                  fail(error);
+                }
+              };
+              audio.once('end', onEnd);
+              audio.once('abort', onAbort);
+              return result;
+            };
             return () => {
               this.maps.stt.set(name, engine);
               this.#lists.stt.push(engine);
@@ -179,6 +287,10 @@ export class EngineManager {
     return report;
   }
 
+  async destroy(): Promise<void> {
+    await Promise.all(this.#lists.store.map(async (engine) => engine.destroy?.()));
+  }
+
   getStore(query?: { name?: string }): IStore {
     const engine = query?.name ? this.maps.store.get(query.name) : this.#lists.store[0];
     return engine ?? this.dummy.store;
@@ -187,24 +299,56 @@ export class EngineManager {
   getTranslator(query?: {
     name?: string;
     language?: { to: TranslationLanguage; from?: TranslationLanguage };
+    glossary?: TranslatorGlossary | undefined;
   }): ITranslator {
-    let engine = query?.name ? this.maps.translator.get(query.name) : undefined;
-    if (!engine?.active) {
+    const find = (isAvailable: (engine: ITranslator) => boolean): ITranslator | undefined => {
+      const engine = query?.name ? this.maps.translator.get(query.name) : undefined;
+      if (engine?.active && isAvailable(engine)) return engine;
       const list = this.#lists.translator;
       const to = query?.language?.to;
       const from = query?.language?.from;
-      engine = to
-        ? list.find(({ active, languages }) => active && languages.includes(to) && (!from || languages.includes(from)))
-        : list.find(({ active }) => active);
-    }
-    return engine ?? this.dummy.translator;
+      return to
+        ? list.find(
+            (e) => e.active && e.languages.includes(to) && (!from || e.languages.includes(from)) && isAvailable(e),
+          )
+        : list.find((e) => e.active && isAvailable(e));
+    };
+    // failing engines are skipped, but used if there are no other engines
+    const engine = find((e) => this.health.translator.get(e.name)?.isAvailable() ?? true) ?? find(() => true);
+    if (!engine) return this.dummy.translator;
+    const glossary = query?.glossary;
+    if (!glossary || Object.keys(glossary).length === 0) return engine;
+    const translate = engine.translate.bind(engine);
+    return {
+      ...engine,
+      async translate(request) {
+        const [text, restore] = protectTerms(request.text, glossary, request.to);
+        const response = await translate({ ...request, text });
+        return { ...response, text: restore(response.text) };
+      },
+    };
   }
 
   getTTS(query?: { name?: string; locale?: Locale }): ITextToSpeech {
-    return selectVoiceEngine(this.dummy.tts, this.maps.tts, this.#lists.tts, query);
+    return selectVoiceEngine(this.dummy.tts, this.maps.tts, this.#lists.tts, query, this.health.tts);
   }
 
   getSTT(query?: { name?: string; locale?: Locale }): ISpeechToText {
-    return selectVoiceEngine(this.dummy.stt, this.maps.stt, this.#lists.stt, query);
+    return selectVoiceEngine(this.dummy.stt, this.maps.stt, this.#lists.stt, query, this.health.stt);
+  }
+
+  #createHealth(type: EngineStateChange['type'], name: string, options?: EngineHealthOptions): EngineHealth {
+    const health = new EngineHealth(type, name, options, (change) => {
+      const message = `${change.type}-${change.name}: ${change.prevState} -> ${change.state}`;
+      if (change.state === 'open') {
+        const args = change.error === undefined ? [] : [change.error];
+        this.#log?.warn(`${message} (errors: ${change.errors}, cooldown: ${change.cooldown}ms)`, ...args);
+      } else {
+        this.#log?.info(message);
+      }
+      this.emit('stateChange', change);
+    });
+    this.health[type].set(name, health);
+    return health;
   }
 }
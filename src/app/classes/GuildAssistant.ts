@@ -1,5 +1,6 @@
 import type { VoiceConnection } from '@discordjs/voice';
 import type {
+  ApplicationCommandOptionBase,
   ChatInputCommandInteraction,
   ClientEvents,
   ContextMenuCommandBuilder,
@@ -35,10 +36,12 @@ import type { Datastore } from './Datastore';
 import type { EngineManager } from './EngineManager';
 import { EventEmitter } from './EventEmitter';
 import type { GuildAudioReceiver } from './GuildAudioReceiver';
-import type { GuildVoiceChannel, JoinOptions } from './GuildVoiceChannel';
+import type { GuildVoiceChannel, JoinOptions, VoiceChannelState } from './GuildVoiceChannel';
 import type { Logger } from './Logger';
+import type { Metrics } from './Metrics';
 import type { AttachedCommand } from './PluginAdapter';
 import type { PluginContextOptions } from './PluginManager';
+import type { RateLimiter } from './RateLimiter';
 
 const LeastPermissions: PermissionsString[] = [
   'ViewChannel',
@@ -51,6 +54,14 @@ const LeastPermissions: PermissionsString[] = [
   'Speak',
 ];
 
+// wait time for an answer to `event.ask()`
+const DefaultAskTimeout = 30_000;
+
+const RateLimitSaveDelay = 10_000;
+
+// channels for `channel` slots
+const SlotChannelTypes = [ChannelType.GuildText, ChannelType.GuildVoice] as const;
+
 enum CommandResultEmoji {
   success = '✅',
   failure = '⚠️',
@@ -65,6 +76,13 @@ enum Status {
   destroyed,
 }
 
+// ids for members and channels
+function formatOptions(options: Record<string, CommandSlotValue>): Record<string, string | number> {
+  return Object.fromEntries(
+    Object.entries(options).map(([name, value]) => [name, typeof value === 'object' ? value.id : value]),
+  );
+}
+
 type PlayableSpeechMessage = Exclude<PlayableSpeech<'guild'>['message'], undefined>;
 
 type CreateSpeechOptions = {
@@ -73,17 +91,31 @@ type CreateSpeechOptions = {
   message?: PlayableSpeechMessage;
 };
 
+export type CommandResult = 'success' | 'failure' | 'forbidden';
+
+type Conversation = {
+  channelId: string;
+  answer: (text: string | undefined) => void;
+};
+
 type TranscribeOptions = {
   engine: { name: string; locale: Locale };
   request: STTRequest;
 };
 
 export type GuildAssistantInterface = {
-  beforeCommandsUpdate(commands: (SlashCommandBuilder | ContextMenuCommandBuilder)[]): Awaitable<void>;
-  beforeJoin(options: JoinOptions, rejoin: boolean): Awaitable<void>;
-  beforeSpeak(speech: PlayableSpeech<'guild'>): Awaitable<void>;
-  beforeTranscribe(request: STTRequest<'guild'>, engine: ISpeechToText): Awaitable<void>;
+  // return `false` to cancel the action
+  beforeCommandsUpdate(commands: (SlashCommandBuilder | ContextMenuCommandBuilder)[]): Awaitable<void | boolean>;
+  beforeJoin(options: JoinOptions, rejoin: boolean): Awaitable<void | boolean>;
+  beforeSpeak(speech: PlayableSpeech<'guild'>): Awaitable<void | boolean>;
+  beforeTranscribe(request: STTRequest<'guild'>, engine: ISpeechToText): Awaitable<void | boolean>;
   beforeDestroy(): Awaitable<void>;
+  // call `next` to run the command, or return a result to stop it
+  useCommand(
+    event: CommandEvent<'guild'>,
+    command: AttachedCommand,
+    next: () => Promise<CommandResult>,
+  ): Awaitable<CommandResult>;
   onReady(): Awaitable<void>;
   onJoin(channel: VoiceChannel, connection: VoiceConnection, rejoin: boolean): Awaitable<void>;
   onLeave(retry: boolean): Awaitable<void>;
@@ -157,10 +189,15 @@ export class GuildAssistant extends Assistant<GuildAssistantInterface> {
   readonly data: Datastore<'guild'>;
   readonly log: Logger;
   readonly engines: EngineManager;
+  readonly metrics: Metrics;
+  readonly rateLimiter: RateLimiter;
   readonly audioPlayer: IAudioPlayer;
   readonly audioReceiver: GuildAudioReceiver;
   readonly requiredPermissions: Set<PermissionsString>;
   readonly #voiceChannel: GuildVoiceChannel;
+  readonly #conversations: Map<string, Conversation>; // member id ->
+  #rateLimitTimer: NodeJS.Timeout | undefined;
+  #optionsList: PluginContextOptions[];
   #status: Status;
 
   constructor(
@@ -171,6 +208,8 @@ export class GuildAssistant extends Assistant<GuildAssistantInterface> {
       data: Datastore<'guild'>;
       log: Logger;
       engines: EngineManager;
+      metrics: Metrics;
+      rateLimiter: RateLimiter;
       voiceChannel: GuildVoiceChannel;
       audioReceiver: GuildAudioReceiver;
     },
@@ -182,10 +221,14 @@ export class GuildAssistant extends Assistant<GuildAssistantInterface> {
     this.data = di.data;
     this.log = di.log;
     this.engines = di.engines;
+    this.metrics = di.metrics;
+    this.rateLimiter = di.rateLimiter;
     this.audioPlayer = di.voiceChannel;
     this.audioReceiver = di.audioReceiver;
     this.requiredPermissions = new Set(LeastPermissions);
     this.#voiceChannel = di.voiceChannel;
+    this.#conversations = new Map();
+    this.#optionsList = [];
     this.#status = Status.unready;
   }
 
@@ -195,11 +238,17 @@ export class GuildAssistant extends Assistant<GuildAssistantInterface> {
     return joinConfig as JoinOptions;
   }
 
+  get voiceState(): VoiceChannelState | undefined {
+    return this.#voiceChannel.state;
+  }
+
   async setup(app: App, optionsList: PluginContextOptions[]): Promise<void> {
     if (this.#status !== Status.unready) return;
     this.#status = Status.preparing;
     await this.data.setup(this.engines.getStore(), this.log.error);
+    if (this.rateLimiter.persist) this.rateLimiter.load(this.data.get('rateLimits'));
     await app.hook('guildAssistantSetup', this, optionsList);
+    this.#optionsList = [...optionsList];
     this.log.debug?.('Data:', this.data);
     const attachReport = await this.attach(app.plugins, { type: 'guild', assistant: this, app, optionsList });
     this.log.debug?.('Attachments:', attachReport, this.attachments);
@@ -214,10 +263,25 @@ export class GuildAssistant extends Assistant<GuildAssistantInterface> {
     this.log.warn(`Missing permission(s): ${missingPermissions.join(', ')}`);
   }
 
+  async reload(app: App, pluginName: string): Promise<void> {
+    if (this.#status !== Status.ready) return;
+    const optionsList = [...this.#optionsList];
+    await this.reattach(app.plugins, pluginName, { type: 'guild', assistant: this, app, optionsList });
+    this.initializeInterpreters();
+    await this.#updateSlashCommands();
+  }
+
   async destroy(): Promise<void> {
     if (this.#status !== Status.ready) return;
     this.#status = Status.destroying;
     await this.hook('destroy').catch(this.log.error);
+    for (const conversation of this.#conversations.values()) {
+      conversation.answer(undefined);
+    }
+    if (this.#rateLimitTimer) {
+      clearTimeout(this.#rateLimitTimer);
+      this.data.set('rateLimits', this.rateLimiter.toJSON());
+    }
     await this.data.destroy().catch(this.log.error);
     this.#voiceChannel.destroy();
     this.log.info('Destroyed');
@@ -282,7 +346,7 @@ export class GuildAssistant extends Assistant<GuildAssistantInterface> {
         slashCommand.setDescriptionLocalization(locale, sub.description || '-');
       }
       for (const [name, description] of Object.entries(main.options)) {
-        slashCommand.addStringOption((option) => {
+        const setup = <T extends ApplicationCommandOptionBase>(option: T): T => {
           option
             .setName(name)
             .setDescription(description || '-')
@@ -294,11 +358,33 @@ export class GuildAssistant extends Assistant<GuildAssistantInterface> {
             option.setDescriptionLocalization(locale, sub.options[name] || '-');
           }
           return option;
-        });
+        };
+        const slot = command.plugin.slots?.[command.name]?.[name] ?? 'string';
+        switch (slot) {
+          case 'number': {
+            slashCommand.addNumberOption(setup);
+            break;
+          }
+          case 'member': {
+            slashCommand.addUserOption(setup);
+            break;
+          }
+          case 'channel': {
+            slashCommand.addChannelOption((option) => setup(option).addChannelTypes(...SlotChannelTypes));
+            break;
+          }
+          default: {
+            slashCommand.addStringOption((option) => {
+              if (typeof slot === 'string') return setup(option);
+              // Discord allows up to 25 choices
+              return setup(option).addChoices(...slot.slice(0, 25).map((choice) => ({ name: choice, value: choice })));
+            });
+          }
+        }
       }
       slashCommands.push(slashCommand);
     }
-    await this.hook('commandsUpdate', slashCommands);
+    if (!(await this.hook('commandsUpdate', slashCommands))) return;
     this.log.debug?.('Slash commands:', slashCommands);
     const hash = createHash('md5')
       .update(JSON.stringify(slashCommands.map((c) => c.toJSON())))
@@ -335,7 +421,24 @@ export class GuildAssistant extends Assistant<GuildAssistantInterface> {
     if (!source.channel) return;
     const member = source.member;
     const log = (result: string): string => `Slash command ${result}: ${source.user.id} -> /${command.id}`;
-    const options = Object.fromEntries(source.options.data.map((option) => [option.name, `${option.value as string}`]));
+    const options: Record<string, CommandSlotValue> = {};
+    for (const option of source.options.data) {
+      const slot = command.plugin.slots?.[command.name]?.[option.name] ?? 'string';
+      const value =
+        slot === 'member'
+          ? option.member
+          : slot === 'channel'
+          ? option.channel
+          : this.parseSlot(slot, `${option.value}`);
+      if (value === undefined) {
+        source.reply(CommandResultEmoji.failure).catch(this.log.error);
+        this.beep('failure', member);
+        this.#countCommand('slash', command.id, 'failure');
+        this.log.warn(log('invalid'), option.name, option.value);
+        return;
+      }
+      options[option.name] = value;
+    }
     const event: CommandEvent<'guild'> = {
       type: 'slash',
       locale: source.locale,
@@ -356,19 +459,39 @@ export class GuildAssistant extends Assistant<GuildAssistantInterface> {
         const payload = new MessagePayload(source, typeof options === 'string' ? { content: options } : options);
         return source.followUp(payload);
       },
+      ask: async (prompt, options) =>
+        this.#ask(
+          member,
+          source.channelId,
+          async () => {
+            const payload = new MessagePayload(source, typeof prompt === 'string' ? { content: prompt } : prompt);
+            await (source.replied ? source.followUp(payload) : source.reply(payload));
+          },
+          options,
+        ),
     };
     // https://discord.com/developers/docs/interactions/receiving-and-responding
     // > you must send an initial response within 3 seconds of receiving the event.
-    const timer = setTimeout(() => void source.reply('...').catch(this.log.error), 2500);
+    const timer = setTimeout(() => {
+      if (!source.replied) source.reply('...').catch(this.log.error);
+    }, 2500);
     (async () => {
-      const result = (await command.execute(event)) === false ? 'failure' : 'success';
+      const result = await this.#pipe(command, event);
       clearTimeout(timer);
-      event.notify(result).catch(this.log.error);
-      this.log.info(log(result), options);
+      if (result === 'forbidden') {
+        this.beep('failure', member);
+        const emoji = CommandResultEmoji.forbidden;
+        (source.replied ? source.followUp(emoji) : source.reply(emoji)).catch(this.log.error);
+      } else {
+        event.notify(result).catch(this.log.error);
+      }
+      this.#countCommand('slash', command.id, result);
+      this.log[result === 'forbidden' ? 'warn' : 'info'](log(result), formatOptions(options));
     })().catch((error) => {
       if (!source.replied) source.reply(CommandResultEmoji.failure).catch(this.log.error);
       this.beep('failure', member);
-      this.log.error(log('error'), options, error);
+      this.#countCommand('slash', command.id, 'error');
+      this.log.error(log('error'), formatOptions(options), error);
     });
   }
 
@@ -380,7 +503,8 @@ export class GuildAssistant extends Assistant<GuildAssistantInterface> {
         if (!member.permissions.has(command.plugin.permissions[command.name] ?? [])) {
           source.react(CommandResultEmoji.forbidden).catch(this.log.error);
           this.beep('failure', member);
-          this.log.warn(log('forbidden'), command.options);
+          this.#countCommand('text', command.id, 'forbidden');
+          this.log.warn(log('forbidden'), formatOptions(command.options));
           return;
         }
         const event: CommandEvent<'guild'> = {
@@ -388,6 +512,7 @@ export class GuildAssistant extends Assistant<GuildAssistantInterface> {
           locale: command.locale,
           options: command.options,
           script: command.script,
+          score: command.score,
           source,
           member,
           channel: source.channel,
@@ -402,30 +527,41 @@ export class GuildAssistant extends Assistant<GuildAssistantInterface> {
             await event.notify(result);
             return source.reply(options);
           },
+          ask: async (prompt, options) =>
+            this.#ask(member, source.channelId, async () => source.reply(prompt), options),
         };
-        const result = (await command.execute(event)) === false ? 'failure' : 'success';
-        event.notify(result).catch(this.log.error);
-        this.log.info(log(result), command.options);
+        const result = await this.#pipe(command, event);
+        if (result === 'forbidden') {
+          this.beep('failure', member);
+          source.react(CommandResultEmoji.forbidden).catch(this.log.error);
+        } else {
+          event.notify(result).catch(this.log.error);
+        }
+        this.#countCommand('text', command.id, result);
+        this.log[result === 'forbidden' ? 'warn' : 'info'](log(result), formatOptions(command.options));
       })().catch((error) => {
         source.react(CommandResultEmoji.failure).catch(this.log.error);
         this.beep('failure', member);
-        this.log.error(log('error'), command.options, error);
+        this.#countCommand('text', command.id, 'error');
+        this.log.error(log('error'), formatOptions(command.options), error);
       });
     })().catch(this.log.error);
   }
 
   #runVoiceCommand(command: InterpretedCommand, source: RecognizableAudio<'guild'>): void {
     const member = source.member;
-    const log = (result: string): string => `Voice command ${result}: ${member.id} -> /${command.id}`;
+    const log = (result: string): string =>
+      `Voice command ${result}: ${member.id} -> /${command.id} (${command.score.toFixed(2)})`;
     if (!member.permissions.has(command.plugin.permissions[command.name] ?? [])) {
       this.beep('failure', member);
-      this.log.warn(log('forbidden'), command.options);
+      this.#countCommand('voice', command.id, 'forbidden');
+      this.log.warn(log('forbidden'), formatOptions(command.options));
       return;
     }
     let message: Message<true> | undefined;
-    const notify = async (result: 'success' | 'failure'): Promise<Message<true>> => {
+    const notify = async (result: CommandResult): Promise<Message<true>> => {
       if (message) return message;
-      this.beep(result, member);
+      this.beep(result === 'forbidden' ? 'failure' : result, member);
       const emoji = CommandResultEmoji[result];
       return (message = await source.destination.send(`${userMention(member.id)} \`/${command.id}\` ${emoji}`));
     };
@@ -434,6 +570,7 @@ export class GuildAssistant extends Assistant<GuildAssistantInterface> {
       locale: command.locale,
       options: command.options,
       script: command.script,
+      score: command.score,
       source,
       member,
       channel: source.channel,
@@ -448,17 +585,149 @@ export class GuildAssistant extends Assistant<GuildAssistantInterface> {
         const message = await notify(result);
         return message.reply(options);
       },
+      ask: async (prompt, options) =>
+        this.#ask(
+          member,
+          source.destination.id,
+          async () => {
+            const payload = typeof prompt === 'string' ? { content: prompt } : prompt;
+            if (payload.content) {
+              const locale = command.locale;
+              this.speak({
+                engine: { name: this.defaultTTS.name, locale },
+                request: {
+                  voice: locale === this.defaultTTS.locale ? this.defaultTTS.voice : '',
+                  speed: this.defaultTTS.speed,
+                  pitch: this.defaultTTS.pitch,
+                  text: payload.content,
+                },
+              });
+            }
+            await source.destination.send({
+              ...payload,
+              content: `${userMention(member.id)} ${payload.content ?? ''}`.trimEnd(),
+            });
+          },
+          options,
+        ),
     };
     (async () => {
-      const result = (await command.execute(event)) === false ? 'failure' : 'success';
-      event.notify(result).catch(this.log.error);
-      this.log.info(log(result), command.options);
+      const result = await this.#pipe(command, event);
+      if (result === 'forbidden') {
+        notify(result).catch(this.log.error);
+      } else {
+        event.notify(result).catch(this.log.error);
+      }
+      this.#countCommand('voice', command.id, result);
+      this.log[result === 'forbidden' ? 'warn' : 'info'](log(result), formatOptions(command.options));
     })().catch((error) => {
       this.beep('failure', member);
-      this.log.error(log('error'), command.options, error);
+      this.#countCommand('voice', command.id, 'error');
+      this.log.error(log('error'), formatOptions(command.options), error);
     });
   }
 
+  async #pipe(command: AttachedCommand, event: CommandEvent<'guild'>): Promise<CommandResult> {
+    if (this.rateLimiter.enabled) {
+      const ok = this.rateLimiter.consume(event.member.id, command.id);
+      if (this.rateLimiter.persist) this.#saveRateLimits();
+      if (!ok) {
+        this.log.debug?.(`Throttled: ${event.member.id} -> /${command.id}`);
+        return 'forbidden';
+      }
+    }
+    return this.pipe('command', [event, command], async () =>
+      (await command.execute(event)) === false ? 'failure' : 'success',
+    );
+  }
+
+  // not to serialize the counters on every command
+  #saveRateLimits(): void {
+    if (this.#rateLimitTimer) return;
+    this.#rateLimitTimer = setTimeout(() => {
+      this.#rateLimitTimer = undefined;
+      this.data.set('rateLimits', this.rateLimiter.toJSON());
+    }, RateLimitSaveDelay);
+  }
+
+  /**
+   * Register a conversation before posting the prompt not to miss a quick answer, a new one replaces the previous one
+   */
+  async #ask(
+    member: GuildMember,
+    channelId: string,
+    prompt: () => Promise<unknown>,
+    options: { timeout?: number } = {},
+  ): Promise<string | undefined> {
+    const answer = new Promise<string | undefined>((resolve) => {
+      const conversation: Conversation = {
+        channelId,
+        answer: (text) => {
+          clearTimeout(timer);
+          if (this.#conversations.get(member.id) === conversation) this.#conversations.delete(member.id);
+          resolve(text);
+        },
+      };
+      const timer = setTimeout(() => conversation.answer(undefined), options.timeout ?? DefaultAskTimeout);
+      this.#conversations.get(member.id)?.answer(undefined);
+      this.#conversations.set(member.id, conversation);
+    });
+    const conversation = this.#conversations.get(member.id);
+    try {
+      await prompt();
+    } catch (error) {
+      conversation?.answer(undefined);
+      throw error;
+    }
+    return answer;
+  }
+
+  isAsking(memberId: string): boolean {
+    return this.#conversations.has(memberId);
+  }
+
+  /**
+   * Pass a text message or a voice transcript to the command asking the member
+   * @param channelId text channel of the message, answers in voice are taken from any channel
+   * @returns `true` if the command took it
+   */
+  answer(memberId: string, text: string, channelId?: string): boolean {
+    const conversation = this.#conversations.get(memberId);
+    if (!conversation || (channelId !== undefined && channelId !== conversation.channelId)) return false;
+    this.log.debug?.(`Answered: ${memberId}`);
+    conversation.answer(text);
+    return true;
+  }
+
+  protected override parseSlot(slot: CommandSlot, text: string): CommandSlotValue | undefined {
+    const value = text.normalize('NFKC').trim();
+    switch (slot) {
+      case 'member': {
+        const id = value.match(/^<@!?(\d+)>$/)?.[1];
+        if (id) return this.guild.members.cache.get(id);
+        const name = value.replace(/^@/, '').toLowerCase();
+        return this.guild.members.cache.find((member) =>
+          [member.displayName, member.user.username].some((n) => n.normalize('NFKC').toLowerCase() === name),
+        );
+      }
+      case 'channel': {
+        const id = value.match(/^<#(\d+)>$/)?.[1];
+        const name = value.replace(/^#/, '').toLowerCase();
+        const channel = id
+          ? this.guild.channels.cache.get(id)
+          : this.guild.channels.cache.find((channel) => channel.name.normalize('NFKC').toLowerCase() === name);
+        return channel && (SlotChannelTypes as readonly ChannelType[]).includes(channel.type) ? channel : undefined;
+      }
+      default: {
+        return super.parseSlot(slot, text);
+      }
+    }
+  }
+
+  #countCommand(type: CommandEvent['type'], id: string, result: CommandResult | 'error'): void {
+    this.metrics.increment('commands_total', { guild: this.guild.id, type, command: id, result });
+  }
+
   override beep(soundName: Parameters<Assistant<{}>['beep']>[0], member?: GuildMember): boolean {
     if (member) {
       const memberChannelId = member.voice.channelId;
@@ -471,7 +740,7 @@ export class GuildAssistant extends Assistant<GuildAssistantInterface> {
   async join(options: string | { channelId: string; selfDeaf?: boolean; selfMute?: boolean }): Promise<boolean> {
     if (typeof options === 'string') options = { channelId: options };
     const joinOptions = { selfDeaf: false, selfMute: false, ...options };
-    await this.hook('join', joinOptions, false);
+    if (!(await this.hook('join', joinOptions, false))) return false;
     return this.#voiceChannel.join(joinOptions);
   }
 
@@ -480,7 +749,7 @@ export class GuildAssistant extends Assistant<GuildAssistantInterface> {
     if (!current) return false;
     if (typeof options === 'string') options = { channelId: options };
     const joinOptions = { ...current, ...options };
-    await this.hook('join', joinOptions, true);
+    if (!(await this.hook('join', joinOptions, true))) return false;
     return this.#voiceChannel.rejoin(joinOptions);
   }
 
@@ -501,7 +770,7 @@ export class GuildAssistant extends Assistant<GuildAssistantInterface> {
     this.fallbackVoice(stt, options);
     if (!stt.transcribe(options.request)) return false;
     this.hook('transcribe', options.request, stt)
-      .then(() => options.request.audio.emit('ready'))
+      .then((ok) => (ok ? options.request.audio.emit('ready') : options.request.audio.abort()))
       .catch(this.log.error);
     return true;
   }
@@ -531,7 +800,7 @@ export class GuildAssistant extends Assistant<GuildAssistantInterface> {
     this.fallbackVoice(tts, options);
     const speechOptions: PlayableSpeechOptions = {
       generator: async (request) => {
-        await this.hook('speak', speech);
+        if (!(await this.hook('speak', speech))) return;
         if (request.text.length === 0) return { ...request, resource: this.createEmptyAudioResource() };
         return tts.generate(request);
       },
@@ -546,7 +815,10 @@ export class GuildAssistant extends Assistant<GuildAssistantInterface> {
 }
 
 type PlayableSpeechOptions = {
-  generator: (request: TTSRequest) => Promise<TTSResponse>;
+  /**
+   * @returns `undefined` if canceled
+   */
+  generator: (request: TTSRequest) => Promise<TTSResponse | undefined>;
   locale: Locale;
   request: TTSRequest;
   message?: PlayableSpeechMessage;
@@ -554,10 +826,10 @@ type PlayableSpeechOptions = {
 };
 
 class PlayableSpeechImpl
-  extends EventEmitter<{ error: [error: unknown]; ready: [] }>
+  extends EventEmitter<{ error: [error: unknown]; ready: []; cancel: [] }>
   implements PlayableSpeech<'guild'>
 {
-  readonly #generator: (request: TTSRequest) => Promise<TTSResponse>;
+  readonly #generator: (request: TTSRequest) => Promise<TTSResponse | undefined>;
   readonly locale: Locale;
   readonly request: TTSRequest;
   response: TTSResponse | undefined;
@@ -579,6 +851,10 @@ class PlayableSpeechImpl
     if (this.response) return;
     this.#generator(this.request)
       .then((response) => {
+        if (!response) {
+          this.emit('cancel');
+          return;
+        }
         this.response = response;
         this.emit('ready');
       })
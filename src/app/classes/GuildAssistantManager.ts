@@ -8,6 +8,8 @@ import { GuildAssistant } from './GuildAssistant';
 import { GuildAudioReceiver } from './GuildAudioReceiver';
 import { GuildVoiceChannel } from './GuildVoiceChannel';
 import type { PluginContextOptions } from './PluginManager';
+import type { RateLimiterOptions } from './RateLimiter';
+import { RateLimiter } from './RateLimiter';
 
 enum Status {
   ready,
@@ -28,6 +30,10 @@ type GuildAssistantOptions = {
    * Guild plugin settings
    */
   plugins?: PluginContextOptions;
+  /**
+   * Command rate limits, e.g. `{ user: { burst: 5, refill: 10_000 } }`, merged into the default ones per scope
+   */
+  rateLimit?: RateLimiterOptions;
 };
 
 export type GuildAssistantMangerOptions = {
@@ -77,6 +83,10 @@ export class GuildAssistantManager {
     return this.#assistants.get(guildId);
   }
 
+  values(): IterableIterator<GuildAssistant> {
+    return this.#assistants.values();
+  }
+
   async add(app: App, guild: Guild): Promise<boolean> {
     if (this.#status !== Status.ready || this.#assistants.has(guild.id)) return false;
     const log = app.log.createChild(`GUILD:${shortenId(guild.id)}`);
@@ -94,6 +104,11 @@ export class GuildAssistantManager {
         data: new Datastore(`guild-${guild.id}`),
         log,
         engines: app.engines,
+        metrics: app.metrics,
+        rateLimiter: new RateLimiter({
+          ...this.#options.guilds?.default?.rateLimit,
+          ...this.#options.guilds?.[guild.id]?.rateLimit,
+        }),
         voiceChannel: new GuildVoiceChannel(
           {
             debug: !!log.debug,
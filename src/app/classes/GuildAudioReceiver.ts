@@ -1,3 +1,4 @@
+import { OpusEncoder } from '@discordjs/opus';
 import type { VoiceConnection } from '@discordjs/voice';
 import { EndBehaviorType, VoiceConnectionStatus } from '@discordjs/voice';
 import type { GuildMember, TextChannel, VoiceChannel } from 'discord.js';
@@ -5,6 +6,9 @@ import { Readable } from 'node:stream';
 import { shortenId } from '../utils';
 import { EventEmitter } from './EventEmitter';
 
+// 20ms per frame, the speech before the wake word is detected is kept up to 10 seconds
+const MaxDetectionFrames = 500;
+
 function unsubscribe(connection: VoiceConnection): void {
   for (const subscription of connection.receiver.subscriptions.values()) {
     if (!subscription.destroyed) subscription.destroy();
@@ -16,12 +20,32 @@ type Events = {
   create: [audio: RecognizableAudio<'guild'>];
 };
 
+export type WakeWordSession = {
+  /**
+   * Receive a chunk of the speech, signed 16-bit little-endian PCM in 48kHz mono
+   */
+  write(pcm: Buffer): void;
+  /**
+   * Called when the speech ends or the wake word is detected
+   */
+  end(): void;
+};
+
+export type IWakeWordDetector = {
+  /**
+   * Start detecting the wake word in a speech of the member, and call `detect` once it's heard before `end()`
+   * @returns `undefined` to recognize the speech without detection, e.g. when dictating
+   */
+  start(member: GuildMember, detect: () => void): WakeWordSession | undefined;
+};
+
 export class GuildAudioReceiver extends EventEmitter<Events> {
   readonly #error: ErrorHandler;
   readonly #debug?: DebugHandler;
   readonly #bots: Map<string, true>;
   #enabled: boolean;
   #current: { connection: VoiceConnection; channel: VoiceChannel } | undefined;
+  #detector: IWakeWordDetector | undefined;
 
   constructor(errorHandler: ErrorHandler, debug: boolean) {
     super(errorHandler);
@@ -39,6 +63,13 @@ export class GuildAudioReceiver extends EventEmitter<Events> {
     return this.#enabled;
   }
 
+  /**
+   * Only recognize speeches with the wake word, to save the resources of speech-to-text engines
+   */
+  setDetector(detector: IWakeWordDetector | undefined): void {
+    this.#detector = detector;
+  }
+
   enable(): void {
     this.#enabled = true;
   }
@@ -77,7 +108,7 @@ export class GuildAudioReceiver extends EventEmitter<Events> {
     if (member.user.bot) return void this.#bots.set(userId, true);
     this.#debug?.(`[AR:${shortenId(channel.id)}] Subscribe ${userId}`);
     const subscription = connection.receiver.subscribe(userId, { end: { behavior: EndBehaviorType.Manual } });
-    const creator = new VoiceAudioCreator(member, channel, this.#error, this.#debug);
+    const creator = new VoiceAudioCreator(member, channel, () => this.#detector, this.#error, this.#debug);
     creator.on('create', (audio) => void this.emit('create', audio));
     subscription.on('data', (chunk: Buffer) => creator.push(chunk));
     subscription.once('close', () => this.#debug?.(`[AR:${shortenId(channel.id)}] Unsubscribe ${userId}`));
@@ -89,24 +120,34 @@ class VoiceAudioCreator extends EventEmitter<Events> {
   readonly #debug?: DebugHandler;
   readonly #member: GuildMember;
   readonly #channel: VoiceChannel;
+  readonly #detector: () => IWakeWordDetector | undefined;
+  #opus: OpusEncoder | undefined;
+  #session: WakeWordSession | undefined;
   #buffers: Buffer[];
   #endFrameTimes: number[];
   #resetTimer?: NodeJS.Timeout;
   #finishTimer?: NodeJS.Timeout;
   #audio: RecognizableAudio<'guild'> | undefined;
 
-  constructor(member: GuildMember, channel: VoiceChannel, errorHandler: ErrorHandler, debugHandler?: DebugHandler) {
+  constructor(
+    member: GuildMember,
+    channel: VoiceChannel,
+    detector: () => IWakeWordDetector | undefined,
+    errorHandler: ErrorHandler,
+    debugHandler?: DebugHandler,
+  ) {
     super(errorHandler);
     this.#error = errorHandler;
     if (debugHandler) this.#debug = debugHandler;
     this.#member = member;
     this.#channel = channel;
+    this.#detector = detector;
     this.#buffers = [];
     this.#endFrameTimes = [];
   }
 
   push(chunk: Buffer): void {
-    if (this.#audio) {
+    if (this.#audio !== undefined || this.#session !== undefined) {
       clearTimeout(this.#finishTimer);
       this.#endFrameTimes.push(Date.now());
       if (this.#endFrameTimes.length > 10) this.#endFrameTimes.shift();
@@ -115,8 +156,12 @@ class VoiceAudioCreator extends EventEmitter<Events> {
         this.#finish();
         return;
       }
-      // this.#debug?.(`[AC:${shortenId(this.#member.id)}] ${this.#audio.aborted ? '-' : '>'} ${chunk.length}`);
-      if (!this.#audio.aborted) this.#audio.resource.push(chunk);
+      // this.#debug?.(`[AC:${shortenId(this.#member.id)}] ${this.#audio?.aborted ? '-' : '>'} ${chunk.length}`);
+      if (this.#audio) {
+        if (!this.#audio.aborted) this.#audio.resource.push(chunk);
+      } else {
+        this.#detect(chunk);
+      }
       this.#setFinishTimer();
       return;
     }
@@ -130,6 +175,34 @@ class VoiceAudioCreator extends EventEmitter<Events> {
       }, 300);
       return;
     }
+    const session = this.#detector()?.start(this.#member, () => {
+      if (!this.#session) return;
+      this.#debug?.(`[AC:${shortenId(this.#member.id)}] Detected`);
+      this.#session.end();
+      this.#session = undefined;
+      this.#create();
+    });
+    if (session) {
+      this.#debug?.(`[AC:${shortenId(this.#member.id)}] Detect`);
+      this.#session = session;
+      this.#opus ??= new OpusEncoder(48_000, 1);
+      for (const buffer of this.#buffers) {
+        session.write(this.#opus.decode(buffer));
+      }
+      this.#setFinishTimer();
+      return;
+    }
+    this.#create();
+  }
+
+  #detect(chunk: Buffer): void {
+    this.#buffers.push(chunk);
+    if (this.#buffers.length > MaxDetectionFrames) this.#buffers.shift();
+    this.#session?.write((this.#opus ??= new OpusEncoder(48_000, 1)).decode(chunk));
+  }
+
+  #create(): void {
+    clearTimeout(this.#finishTimer);
     this.#audio = new RecognizableAudioImpl(this.#member, this.#channel, this.#error);
     for (const buffer of this.#buffers) {
       this.#audio.resource.push(buffer);
@@ -141,6 +214,11 @@ class VoiceAudioCreator extends EventEmitter<Events> {
   }
 
   #finish(): void {
+    if (this.#session) {
+      this.#session.end();
+      this.#session = undefined;
+      this.#buffers = [];
+    }
     if (!this.#audio?.aborted) this.#audio?.resource.push(null);
     this.#audio = undefined;
     this.#endFrameTimes = [];
@@ -152,7 +230,10 @@ class VoiceAudioCreator extends EventEmitter<Events> {
   }
 }
 
-class RecognizableAudioImpl extends EventEmitter<{ end: []; abort: [] }> implements RecognizableAudio<'guild'> {
+class RecognizableAudioImpl
+  extends EventEmitter<{ end: []; abort: [error?: unknown] }>
+  implements RecognizableAudio<'guild'>
+{
   readonly type = 'guild';
   readonly member: GuildMember;
   readonly channel: VoiceChannel;
@@ -174,9 +255,9 @@ class RecognizableAudioImpl extends EventEmitter<{ end: []; abort: [] }> impleme
     this.on('end', () => void (this.transcript = this.results.join('\n')));
   }
 
-  abort(): void {
+  abort(error?: unknown): void {
     if (this.aborted) return;
     this.aborted = true;
-    this.emit('abort');
+    this.emit('abort', error);
   }
 }
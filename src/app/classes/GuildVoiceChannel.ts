@@ -51,6 +51,13 @@ export type JoinOptions = {
   selfMute: boolean;
 };
 
+export type VoiceChannelState = {
+  channelId: string | null;
+  connection: VoiceConnectionStatus;
+  player: AudioPlayerStatus;
+  queue: number;
+};
+
 export class GuildVoiceChannel extends EventEmitter<Events> implements IAudioPlayer {
   readonly #debug?: (type: ClassType, message: string, ...args: unknown[]) => void;
   readonly #guildId: string;
@@ -86,6 +93,16 @@ export class GuildVoiceChannel extends EventEmitter<Events> implements IAudioPla
     return this.#current?.connection.joinConfig;
   }
 
+  get state(): VoiceChannelState | undefined {
+    if (!this.#current) return undefined;
+    return {
+      channelId: this.#current.connection.joinConfig.channelId,
+      connection: this.#current.connection.state.status,
+      player: this.#current.player.state.status,
+      queue: this.#current.queue.length,
+    };
+  }
+
   destroy(): void {
     if (!this.#current) return;
     this.#willRejoin = false;
@@ -217,6 +234,12 @@ export class GuildVoiceChannel extends EventEmitter<Events> implements IAudioPla
     const kickStart = this.#current.queue.push(audio) === 1;
     if (kickStart) this.#startToPlay(audio);
     audio.once('error', (error) => void this.emit('error', this.#createError('audio', error)));
+    audio.once('cancel', () => {
+      // the first one is skipped in #startToPlay
+      if (this.#current && this.#current.queue[0] !== audio) {
+        this.#current.queue = this.#current.queue.filter((queued) => queued !== audio);
+      }
+    });
     audio.generate();
     return true;
   }
@@ -238,11 +261,13 @@ export class GuildVoiceChannel extends EventEmitter<Events> implements IAudioPla
       this.#debug?.('audio', 'Ready', debugAudio(audio));
       this.#tryToPlay(audio);
     };
-    audio.once('error', () => {
+    const onSkip = (): void => {
       clearTimeout(timer);
       audio.off('ready', onReady);
       this.#onPlayed();
-    });
+    };
+    audio.once('error', onSkip);
+    audio.once('cancel', onSkip);
     audio.once('ready', onReady);
   }
 
@@ -63,6 +63,11 @@ export class HomeAssistant extends Assistant<HomeAssistantInterface> {
     this.emit('ready');
   }
 
+  async reload(app: App, pluginName: string): Promise<void> {
+    if (this.#status !== Status.ready) return;
+    await this.reattach(app.plugins, pluginName, { type: 'home', assistant: this, app });
+  }
+
   async destroy(): Promise<void> {
     if (this.#status !== Status.ready) return;
     this.#status = Status.destroying;
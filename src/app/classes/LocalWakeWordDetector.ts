@@ -0,0 +1,85 @@
+import type { GuildMember } from 'discord.js';
+import { spawn } from 'node:child_process';
+import { createInterface } from 'node:readline';
+import { downsamplePCM } from '../utils';
+import type { IWakeWordDetector, WakeWordSession } from './GuildAudioReceiver';
+
+const InputSampleRate = 48_000;
+
+export type LocalWakeWordDetectorOptions = {
+  /**
+   * Executable path of the keyword spotter, e.g. an openWakeWord or Porcupine wrapper script
+   *
+   * The process reads raw PCM (signed 16-bit little-endian, mono) from stdin until it's closed,
+   * and writes a line to stdout when it hears the wake word
+   */
+  exec: string;
+  /**
+   * Arguments of the keyword spotter
+   * @default []
+   */
+  args?: string[];
+  /**
+   * Sample rate of PCM input, a divisor of 48000
+   * @default 16_000
+   */
+  sampleRate?: number;
+};
+
+/**
+ * Wake word detector running a local keyword spotter for each speech
+ */
+export class LocalWakeWordDetector implements IWakeWordDetector {
+  readonly #exec: string;
+  readonly #args: string[];
+  readonly #ratio: number;
+  readonly #error: ErrorHandler;
+
+  constructor(options: LocalWakeWordDetectorOptions, errorHandler: ErrorHandler) {
+    const sampleRate = options.sampleRate ?? 16_000;
+    if (InputSampleRate % sampleRate !== 0) {
+      throw new Error(`Local wake word detector: Unsupported sample rate (${sampleRate})`);
+    }
+    this.#exec = options.exec;
+    this.#args = options.args ?? [];
+    this.#ratio = InputSampleRate / sampleRate;
+    this.#error = errorHandler;
+  }
+
+  /**
+   * Run the keyword spotter once, not to fail on every speech with an invalid path
+   */
+  async check(): Promise<boolean> {
+    return new Promise((resolve) => {
+      const spotter = spawn(this.#exec, this.#args, { stdio: 'ignore' });
+      spotter.once('spawn', () => {
+        spotter.kill();
+        resolve(true);
+      });
+      spotter.once('error', (error) => {
+        this.#error(error);
+        resolve(false);
+      });
+    });
+  }
+
+  start(_member: GuildMember, detect: () => void): WakeWordSession {
+    const spotter = spawn(this.#exec, this.#args, { stdio: ['pipe', 'pipe', 'ignore'] });
+    let ended = false;
+    spotter.on('error', this.#error);
+    spotter.stdin.on('error', () => {}); // the process might exit before the speech ends
+    createInterface({ input: spotter.stdout }).once('line', () => {
+      if (!ended) detect();
+    });
+    return {
+      write: (pcm) => {
+        if (!ended && spotter.stdin.writable) spotter.stdin.write(downsamplePCM(pcm, this.#ratio));
+      },
+      end: () => {
+        if (ended) return;
+        ended = true;
+        spotter.kill();
+      },
+    };
+  }
+}
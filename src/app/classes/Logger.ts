@@ -1,9 +1,19 @@
 import { Console } from 'node:console';
+import { closeSync, mkdirSync, openSync, readdirSync, renameSync, statSync, unlinkSync, writeSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
 import type { InspectOptions } from 'node:util';
 import { inspect } from 'node:util';
 import { formatDate } from '../utils';
 import { EventEmitter } from './EventEmitter';
 
+const LogFilePath = join(__dirname, '../../../tmp/log/iwassistant.log');
+
+const DefaultFileSize = 10 * 1024 * 1024;
+
+const DefaultFileAge = 7 * 24 * 60 * 60 * 1000;
+
+const JSONInspectOptions: InspectOptions = { colors: false, compact: true, breakLength: Number.POSITIVE_INFINITY };
+
 const Prefixes = ['[DBG]', '[INF]', '[WRN]', '[ERR]'] as const;
 
 const Colors = ['35', '36', '33', '31'] as const;
@@ -33,27 +43,122 @@ export type LoggerOptions = {
    * @default true
    */
   timestamp?: boolean;
+  /**
+   * Log format, `json` outputs a JSON object per line
+   * @default "text"
+   */
+  format?: 'text' | 'json';
+  /**
+   * Log file settings, written alongside the console
+   * @default false
+   */
+  file?: LogFileOptions | boolean;
   /**
    * Custom console
    */
   console?: Console;
 };
 
+export type LogFileOptions = {
+  /**
+   * Log file path
+   * @default "tmp/log/iwassistant.log"
+   */
+  path?: string;
+  /**
+   * Max size of a log file in bytes, rotated when it's exceeded
+   * @default 10_485_760
+   */
+  size?: number;
+  /**
+   * Max age of rotated log files in milliseconds
+   * @default 604_800_000
+   */
+  age?: number;
+};
+
+type SerializedError = {
+  name: string;
+  message: string;
+  stack?: string;
+  cause?: SerializedError | string;
+};
+
+function serializeError(error: Error): SerializedError {
+  const serialized: SerializedError = { name: error.name, message: error.message };
+  if (error.stack) serialized.stack = error.stack;
+  if (error.cause !== undefined) {
+    serialized.cause = error.cause instanceof Error ? serializeError(error.cause) : inspect(error.cause);
+  }
+  return serialized;
+}
+
+class LogFile {
+  readonly #path: string;
+  readonly #size: number;
+  readonly #age: number;
+  #fd: number | undefined;
+  #written: number;
+
+  constructor(options: LogFileOptions) {
+    this.#path = options.path ?? LogFilePath;
+    this.#size = options.size ?? DefaultFileSize;
+    this.#age = options.age ?? DefaultFileAge;
+    this.#written = 0;
+    mkdirSync(dirname(this.#path), { recursive: true });
+  }
+
+  write(line: string): void {
+    const data = Buffer.from(`${line}\n`);
+    if (this.#fd === undefined) this.#open();
+    if (this.#written > 0 && this.#written + data.length > this.#size) this.#rotate();
+    if (this.#fd === undefined) return;
+    writeSync(this.#fd, data);
+    this.#written += data.length;
+  }
+
+  #open(): void {
+    this.#fd = openSync(this.#path, 'a');
+    this.#written = statSync(this.#path).size;
+  }
+
+  #rotate(): void {
+    if (this.#fd !== undefined) closeSync(this.#fd);
+    const date = formatDate().replaceAll(/\D/g, '');
+    renameSync(this.#path, `${this.#path}.${date}-${Date.now() % 1000}`);
+    const dir = dirname(this.#path);
+    const name = `${basename(this.#path)}.`;
+    const now = Date.now();
+    for (const file of readdirSync(dir)) {
+      if (!file.startsWith(name)) continue;
+      const path = join(dir, file);
+      if (now - statSync(path).mtimeMs > this.#age) unlinkSync(path);
+    }
+    this.#open();
+  }
+}
+
 export class Logger extends EventEmitter<Record<keyof typeof Level, unknown[]>> {
   readonly #level: Level;
   readonly #color: boolean;
   readonly #timestamp: boolean;
+  readonly #format: 'text' | 'json';
+  readonly #prefixes: string[];
   readonly #prefix: string;
   readonly #console: Console;
+  readonly #file: LogFile | undefined;
   readonly #inspectOptions: { default: InspectOptions; debug: InspectOptions };
   readonly debug?: (...args: unknown[]) => void;
 
-  constructor(options: LoggerOptions & { prefix?: string } = {}) {
+  constructor(options: LoggerOptions & { prefixes?: string[]; logFile?: LogFile } = {}) {
     super();
     this.#level = Level[options.level ?? 'info'];
     this.#color = options.color ?? true;
     this.#timestamp = options.timestamp ?? true;
-    this.#prefix = options.prefix ?? '';
+    this.#format = options.format ?? 'text';
+    this.#prefixes = options.prefixes ?? [];
+    this.#prefix = this.#prefixes.map((prefix) => ` [${prefix}]`).join('');
+    this.#file = options.logFile ?? (options.file ? new LogFile(options.file === true ? {} : options.file) : undefined);
     if (options.console) {
       this.#console = options.console;
     } else {
@@ -78,30 +183,50 @@ export class Logger extends EventEmitter<Record<keyof typeof Level, unknown[]>>
     };
     if (this.#level !== Level.debug) return;
     this.debug = (...args) => {
-      this.#console.debug(this.#createLog(Level.debug, args, true));
+      this.#console.debug(this.#write(Level.debug, args));
       this.emit('debug', ...args);
     };
   }
 
   info = (...args: unknown[]): void => {
     if (this.#level > Level.info) return;
-    this.#console.info(this.#createLog(Level.info, args));
+    this.#console.info(this.#write(Level.info, args));
     this.emit('info', ...args);
   };
 
   warn = (...args: unknown[]): void => {
     if (this.#level > Level.warn) return;
-    this.#console.warn(this.#createLog(Level.warn, args));
+    this.#console.warn(this.#write(Level.warn, args));
     this.emit('warn', ...args);
   };
 
   error = (...args: unknown[]): void => {
-    this.#console.error(this.#createLog(Level.error, args));
+    this.#console.error(this.#write(Level.error, args));
     this.emit('error', ...args);
   };
 
-  #createPrefix(level: Level): string {
-    if (this.#color) {
+  // write to the file and return the log for the console
+  #write(level: Level, args: unknown[]): string {
+    const debug = level === Level.debug;
+    if (this.#format === 'json') {
+      const log = this.#createJSONLog(level, args);
+      this.#writeFile(log);
+      return log;
+    }
+    if (this.#file) this.#writeFile(this.#createLog(level, args, debug, false));
+    return this.#createLog(level, args, debug);
+  }
+
+  #writeFile(log: string): void {
+    try {
+      this.#file?.write(log);
+    } catch (error) {
+      this.#console.error(`Unable to write log file: ${String(error)}`);
+    }
+  }
+
+  #createPrefix(level: Level, color = this.#color): string {
+    if (color) {
       return this.#timestamp
         ? `\u001B[${Colors[level]}m[${formatDate()}] ${Prefixes[level]}${this.#prefix}\u001B[0m`
         : `\u001B[${Colors[level]}m${Prefixes[level]}${this.#prefix}\u001B[0m`;
@@ -112,21 +237,42 @@ export class Logger extends EventEmitter<Record<keyof typeof Level, unknown[]>>
     }
   }
 
-  #createLog(level: Level, args: unknown[], debug = false): string {
-    const options = debug ? this.#inspectOptions.debug : this.#inspectOptions.default;
-    const prefix = this.#createPrefix(level);
+  #createLog(level: Level, args: unknown[], debug = false, color = this.#color): string {
+    const options = {
+      ...(debug ? this.#inspectOptions.debug : this.#inspectOptions.default),
+      colors: color,
+    };
+    const prefix = this.#createPrefix(level, color);
     return `${prefix} ${args
       .map((arg) => (typeof arg === 'string' ? arg : inspect(arg, options)).replaceAll('\n', `\n${prefix} `))
       .join(debug ? `\n${prefix} ` : ' ')}`;
   }
 
+  #createJSONLog(level: Level, args: unknown[]): string {
+    const errors = args.filter((arg): arg is Error => arg instanceof Error);
+    const message = args
+      .map((arg) =>
+        typeof arg === 'string' ? arg : arg instanceof Error ? arg.toString() : inspect(arg, JSONInspectOptions),
+      )
+      .join(' ');
+    return JSON.stringify({
+      timestamp: new Date().toISOString(),
+      level: Levels[level],
+      prefix: this.#prefixes,
+      message,
+      ...(errors.length > 0 ? { errors: errors.map((error) => serializeError(error)) } : {}),
+    });
+  }
+
   createChild(prefix: string): Logger {
     const log = new Logger({
       level: Levels[this.#level],
       color: this.#color,
       timestamp: this.#timestamp,
+      format: this.#format,
       console: this.#console,
-      prefix: `${this.#prefix} [${prefix}]`,
+      prefixes: [...this.#prefixes, prefix],
+      ...(this.#file ? { logFile: this.#file } : {}),
     });
     for (const eventName of this.eventNames()) {
       for (const listener of this.listeners(eventName)) {
@@ -0,0 +1,137 @@
+type MetricType = 'counter' | 'gauge' | 'summary';
+
+type MetricLabels = Record<string, string>;
+
+type Sample = {
+  labels: MetricLabels;
+  value: number;
+  count: number;
+};
+
+type Family = {
+  type: MetricType;
+  help: string;
+  samples: Map<string, Sample>;
+};
+
+function escapeLabel(value: string): string {
+  return value.replaceAll('\\', '\\\\').replaceAll('\n', '\\n').replaceAll('"', '\\"');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}`;
+}
+
+/**
+ * Metrics in the Prometheus text format
+ * @see https://prometheus.io/docs/instrumenting/exposition_formats/
+ */
+export class Metrics {
+  readonly #prefix: string;
+  readonly #families: Map<string, Family>;
+  readonly #collectors: (() => void)[];
+
+  constructor(prefix = 'iwassistant_') {
+    this.#prefix = prefix;
+    this.#families = new Map();
+    this.#collectors = [];
+  }
+
+  define(name: string, type: MetricType, help: string): void {
+    if (this.#families.has(name)) return;
+    this.#families.set(name, { type, help, samples: new Map() });
+  }
+
+  /**
+   * Add a value to a counter
+   */
+  increment(name: string, labels: MetricLabels = {}, value = 1): void {
+    const sample = this.#sample(name, 'counter', labels);
+    sample.value += value;
+  }
+
+  /**
+   * Set a value to a gauge, usually in a collector
+   */
+  set(name: string, labels: MetricLabels, value: number): void {
+    const sample = this.#sample(name, 'gauge', labels);
+    sample.value = value;
+  }
+
+  /**
+   * Add an observation to a summary, e.g. latency in seconds
+   */
+  observe(name: string, labels: MetricLabels, value: number): void {
+    const sample = this.#sample(name, 'summary', labels);
+    sample.value += value;
+    sample.count++;
+  }
+
+  /**
+   * Measure the latency of a function as a summary and count its errors
+   */
+  track<T extends unknown[], U>(
+    name: string,
+    labels: MetricLabels,
+    fn: (...args: T) => Promise<U>,
+  ): (...args: T) => Promise<U> {
+    return async (...args) => {
+      const start = performance.now();
+      try {
+        return await fn(...args);
+      } catch (error) {
+        this.increment(`${name}_errors_total`, labels);
+        throw error;
+      } finally {
+        this.observe(`${name}_seconds`, labels, (performance.now() - start) / 1000);
+      }
+    };
+  }
+
+  /**
+   * Register a function to update gauges on each rendering, the gauges are reset before that
+   */
+  collect(collector: () => void): void {
+    this.#collectors.push(collector);
+  }
+
+  render(): string {
+    for (const family of this.#families.values()) {
+      if (family.type === 'gauge') family.samples.clear();
+    }
+    for (const collector of this.#collectors) {
+      collector();
+    }
+    const lines: string[] = [];
+    for (const [name, { type, help, samples }] of this.#families) {
+      const fullName = `${this.#prefix}${name}`;
+      lines.push(`# HELP ${fullName} ${help}`, `# TYPE ${fullName} ${type}`);
+      for (const { labels, value, count } of samples.values()) {
+        const formattedLabels = formatLabels(labels);
+        if (type === 'summary') {
+          lines.push(`${fullName}_sum${formattedLabels} ${value}`, `${fullName}_count${formattedLabels} ${count}`);
+        } else {
+          lines.push(`${fullName}${formattedLabels} ${value}`);
+        }
+      }
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  #sample(name: string, type: MetricType, labels: MetricLabels): Sample {
+    let family = this.#families.get(name);
+    if (!family) {
+      family = { type, help: name.replaceAll('_', ' '), samples: new Map() };
+      this.#families.set(name, family);
+    }
+    const key = JSON.stringify(labels);
+    let sample = family.samples.get(key);
+    if (!sample) {
+      sample = { labels, value: 0, count: 0 };
+      family.samples.set(key, sample);
+    }
+    return sample;
+  }
+}
@@ -1,20 +1,57 @@
-import { readdirSync } from 'node:fs';
-import { join, relative, resolve } from 'node:path';
+import type { FSWatcher } from 'node:fs';
+import { readdirSync, readFileSync, watch } from 'node:fs';
+import { dirname, join, relative, resolve, sep } from 'node:path';
 import { isObject } from '../utils';
 
+const RootDir = join(__dirname, '../../../');
+
+// npm packages named `iwassistant-<type>-<name>`, e.g. `iwassistant-plugin-guild-echo`
+const PackagePrefix = 'iwassistant-';
+
+// editors write a file several times on saving
+const WatchDelay = 300;
+
+// functions to export for each name prefix, e.g. `tts-*` engines must export `createTTS`
+const RequiredFunctions: Record<string, Record<string, string[]> | undefined> = {
+  engine: { store: ['createStore'], translator: ['createTranslator'], tts: ['createTTS'], stt: ['createSTT'] },
+  plugin: { general: ['setupGuild', 'setupHome'], guild: ['setupGuild'], home: ['setupHome'], app: ['setupApp'] },
+};
+
 type ModuleBase = { name: string; description: string };
 
-export type ModuleReport = { name: string; description: string; enabled: boolean }[];
+type PackageInfo = { name: string; version: string };
+
+export type ModuleReport = { name: string; description: string; enabled: boolean; package?: PackageInfo }[];
+
+function findPackage(file: string, packageName: string): PackageInfo {
+  for (let dir = dirname(file); dir !== dirname(dir); dir = dirname(dir)) {
+    try {
+      const json = JSON.parse(readFileSync(join(dir, 'package.json'), 'utf8')) as Record<string, unknown>;
+      if (json['name'] !== packageName) continue;
+      return { name: packageName, version: typeof json['version'] === 'string' ? json['version'] : '' };
+    } catch {
+      // no package.json
+    }
+  }
+  return { name: packageName, version: '' };
+}
 
 export class ModuleLoader<Source extends ModuleBase = ModuleBase, Module extends ModuleBase = ModuleBase> {
   readonly #type: string;
   readonly #paths: string[];
   readonly #modules: Map<string, Module>;
+  readonly #packages: Map<string, PackageInfo>;
+  readonly #files: Map<string, string>; // file -> module name
+  readonly #watchers: FSWatcher[];
+  #reload: ((file: string) => Promise<string>) | undefined;
 
   constructor(type: string, paths: string[]) {
     this.#type = type;
     this.#paths = paths;
     this.#modules = new Map();
+    this.#packages = new Map();
+    this.#files = new Map();
+    this.#watchers = [];
   }
 
   get(name: string): Module | undefined {
@@ -25,7 +62,10 @@ export class ModuleLoader<Source extends ModuleBase = ModuleBase, Module extends
     this.#modules.clear();
   }
 
-  async load(converter: (source: Source) => Module): Promise<void> {
+  /**
+   * Load modules in the paths, and npm packages of the names missing in the paths
+   */
+  async load(converter: (source: Source) => Module, names: string[] = []): Promise<void> {
     const files: string[] = [];
     for (const path of this.#paths) {
       const dir = resolve(join(__dirname, '../../'), path);
@@ -40,25 +80,111 @@ export class ModuleLoader<Source extends ModuleBase = ModuleBase, Module extends
       }
     }
     for (const file of files) {
-      const source = ((await import(file)) as Record<string, Source>)[this.#type];
-      if (
-        !isObject(source) ||
-        typeof source.name !== 'string' ||
-        typeof source.description !== 'string' ||
-        source.name.length === 0
-      ) {
-        throw new Error(`invalid ${this.#type}: ${file}`);
+      const source = await this.#import(file, file);
+      this.#modules.set(source.name, converter(source));
+      this.#files.set(file, source.name);
+    }
+    this.#reload = async (file) => {
+      const path = resolve(__dirname, file);
+      for (const key of Object.keys(require.cache)) {
+        if (key === path || key.startsWith(`${path}.`) || key.startsWith(`${path}${sep}`)) delete require.cache[key];
       }
+      const source = await this.#import(file, file);
+      const name = this.#files.get(file);
+      if (source.name !== name) throw new Error(`invalid ${this.#type}: ${file} renamed`);
+      this.#modules.set(name, converter(source));
+      return name;
+    };
+    for (const name of names) {
+      if (this.#modules.has(name)) continue;
+      const packageName = `${PackagePrefix}${this.#type}-${name}`;
+      let file: string;
+      try {
+        file = require.resolve(packageName, { paths: [RootDir] });
+      } catch {
+        continue; // not installed
+      }
+      const source = await this.#import(file, packageName);
+      if (source.name !== name) throw new Error(`invalid ${this.#type}: ${packageName} exports ${source.name}`);
       this.#modules.set(source.name, converter(source));
+      this.#packages.set(source.name, findPackage(file, packageName));
+    }
+  }
+
+  /**
+   * Watch the module files in the paths, and load the changed module again before calling the listener
+   */
+  watch(listener: (name: string) => Awaitable<void>, errorHandler: ErrorHandler): void {
+    if (this.#watchers.length > 0) return;
+    const timers = new Map<string, NodeJS.Timeout>();
+    for (const path of this.#paths) {
+      const dir = resolve(join(__dirname, '../../'), path);
+      let watcher: FSWatcher;
+      try {
+        watcher = watch(dir, { recursive: true });
+      } catch {
+        continue; // ignore missing directories
+      }
+      watcher.on('change', (_, filename) => {
+        const entry = filename.toString().split(sep)[0];
+        if (!entry) return;
+        const file = relative(__dirname, join(dir, entry.replace(/\.(js|ts)$/, '')));
+        const key = [...this.#files.keys()].find((f) => f.replace(/\.(js|ts)$/, '') === file);
+        if (!key) return;
+        clearTimeout(timers.get(key));
+        timers.set(
+          key,
+          setTimeout(() => {
+            timers.delete(key);
+            this.#reload?.(key)
+              .then(async (name) => listener(name))
+              .catch(errorHandler);
+          }, WatchDelay),
+        );
+      });
+      watcher.on('error', errorHandler);
+      this.#watchers.push(watcher);
+    }
+  }
+
+  unwatch(): void {
+    for (const watcher of this.#watchers.splice(0)) {
+      watcher.close();
     }
   }
 
   createReport(options: object): ModuleReport {
     const keys = new Set(Object.keys(options));
-    return [...this.#modules.values()].map((module) => ({
-      name: module.name,
-      description: module.description,
-      enabled: keys.has(module.name),
-    }));
+    return [...this.#modules.values()].map((module) => {
+      const report: ModuleReport[number] = {
+        name: module.name,
+        description: module.description,
+        enabled: keys.has(module.name),
+      };
+      const info = this.#packages.get(module.name);
+      if (info) report.package = info;
+      return report;
+    });
+  }
+
+  async #import(file: string, label: string): Promise<Source> {
+    const source = ((await import(file)) as Record<string, unknown>)[this.#type];
+    if (
+      !isObject(source) ||
+      typeof (source as ModuleBase).name !== 'string' ||
+      typeof (source as ModuleBase).description !== 'string' ||
+      (source as ModuleBase).name.length === 0
+    ) {
+      throw new Error(`invalid ${this.#type}: ${label}`);
+    }
+    const { name } = source as ModuleBase;
+    const required = RequiredFunctions[this.#type];
+    if (required) {
+      const functions = required[name.replace(/-.*$/, '')];
+      if (!functions) throw new Error(`invalid ${this.#type} name: ${name} in ${label}`);
+      const missing = functions.filter((key) => !((source as Record<string, unknown>)[key] instanceof Function));
+      if (missing.length > 0) throw new Error(`invalid ${this.#type}: ${label}, missing ${missing.join(', ')}`);
+    }
+    return source as Source;
   }
 }
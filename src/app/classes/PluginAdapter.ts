@@ -10,13 +10,21 @@ function extractNonUnique(commands: AttachedCommand[]): AttachedCommand[] {
   return commands.filter((c1, i) => commands.some((c2, j) => i !== j && c1.id === c2.id));
 }
 
+function insertByPriority(list: [priority: number, handler: Handler][], priority: number, handler: Handler): void {
+  const index = list.findIndex(([p]) => p < priority);
+  list.splice(index === -1 ? list.length : index, 0, [priority, handler]);
+}
+
 function toAttachedPlugin(plugin: AdaptablePlugin): AttachedPlugin {
-  const { name, description, config, permissions, i18n } = plugin;
-  return { name, description, config, permissions, i18n };
+  const { name, description, config, permissions, i18n, slots } = plugin;
+  return { name, description, config, permissions, i18n, ...(slots ? { slots } : {}) };
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-type Handler = (...args: any) => Awaitable<void>;
+type Handler = (...args: any) => Awaitable<unknown>;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Listener = (...args: any) => Awaitable<void>;
 
 type Events<T extends PluginInterface> = {
   [P in keyof T as P extends `on${infer U}` ? Uncapitalize<U> : never]: Parameters<T[P]>;
@@ -26,6 +34,15 @@ type Hooks<T extends PluginInterface> = {
   [P in keyof T as P extends `before${infer U}` ? Uncapitalize<U> : never]: Parameters<T[P]>;
 };
 
+type Middlewares<T extends PluginInterface> = {
+  [P in keyof T as P extends `use${infer U}` ? Uncapitalize<U> : never]: Parameters<T[P]> extends [
+    ...infer U,
+    () => Promise<infer R>,
+  ]
+    ? [args: U, result: R]
+    : never;
+};
+
 export type AttachedPlugin = Omit<AdaptablePlugin, `setup${string}`>;
 
 export type AttachedCommand = {
@@ -37,23 +54,33 @@ export type AttachedCommand = {
 
 export type PluginInterface = Record<string, Handler>;
 
+type AttachOptions = { app: App; optionsList?: PluginContextOptions[] } & (
+  | { type: 'app' }
+  | { type: 'guild'; assistant: GuildAssistant }
+  | { type: 'home'; assistant: HomeAssistant }
+);
+
 export abstract class PluginAdapter<T extends PluginInterface> extends EventEmitter<Events<T>> {
   abstract readonly locale: Locale;
   readonly dicts = new Map<string, I18nDictionary>();
   readonly attachments = new Map<string, AttachedPlugin>();
   readonly commands = new Map<string, AttachedCommand>();
-  readonly #hooks = new Map<keyof Hooks<T>, Handler[]>();
+  readonly subscriptions = new Map<string, string[]>(); // plugin name -> event names
+  // sorted by the priorities
+  readonly #hooks = new Map<keyof Hooks<T>, [priority: number, handler: Handler][]>();
+  readonly #middlewares = new Map<keyof Middlewares<T>, [priority: number, handler: Handler][]>();
+  readonly #handlers = new Map<string, [type: 'on' | 'before' | 'use', name: string, handler: Handler][]>();
 
   protected async attach(
     resource: PluginManager,
-    options: { app: App; optionsList?: PluginContextOptions[] } & (
-      | { type: 'app' }
-      | { type: 'guild'; assistant: GuildAssistant }
-      | { type: 'home'; assistant: HomeAssistant }
-    ),
-  ): Promise<Record<'events' | 'hooks' | 'commands', string[]>> {
-    const plugins = resource.createContext(options.optionsList);
+    options: AttachOptions & { names?: string[] },
+  ): Promise<Record<'events' | 'hooks' | 'middlewares' | 'commands', string[]>> {
+    const names = options.names;
+    const plugins = resource
+      .createContext(options.optionsList)
+      .filter((plugin) => !names || names.includes(plugin.name));
     const promises: Promise<{ plugin: AdaptablePlugin; setup?: Record<string, Handler> }>[] = [];
+    const setups = new Map<string, Promise<unknown>>();
     for (const plugin of plugins) {
       const dict = new I18nDictionary(
         this.locale,
@@ -61,34 +88,39 @@ export abstract class PluginAdapter<T extends PluginInterface> extends EventEmit
       );
       const opts = { dict, config: plugin.config, app: options.app };
       this.dicts.set(plugin.name, dict);
-      promises.push(
-        (async () => {
-          switch (options.type) {
-            case 'app': {
-              if (plugin.setupApp) {
-                const data = options.app.data.createProperty(plugin.name);
-                return { plugin, setup: await plugin.setupApp({ ...opts, data }) };
-              }
-              break;
+      const dependencies = [...(plugin.dependencies ?? []), ...(plugin.optionalDependencies ?? [])];
+      const promise = (async () => {
+        await Promise.all(dependencies.map(async (name) => setups.get(name))); // sorted by the dependencies
+        switch (options.type) {
+          case 'app': {
+            if (plugin.setupApp) {
+              await options.app.data.migrate(plugin.name, plugin.schema?.app);
+              const data = options.app.data.createProperty(plugin.name);
+              return { plugin, setup: await plugin.setupApp({ ...opts, data }) };
             }
-            case 'guild': {
-              if (plugin.setupGuild) {
-                const data = options.assistant.data.createProperty(plugin.name);
-                return { plugin, setup: await plugin.setupGuild({ ...opts, data, assistant: options.assistant }) };
-              }
-              break;
+            break;
+          }
+          case 'guild': {
+            if (plugin.setupGuild) {
+              await options.assistant.data.migrate(plugin.name, plugin.schema?.guild);
+              const data = options.assistant.data.createProperty(plugin.name);
+              return { plugin, setup: await plugin.setupGuild({ ...opts, data, assistant: options.assistant }) };
             }
-            case 'home': {
-              if (plugin.setupHome) {
-                const data = options.assistant.data.createProperty(plugin.name);
-                return { plugin, setup: await plugin.setupHome({ ...opts, data, assistant: options.assistant }) };
-              }
-              break;
+            break;
+          }
+          case 'home': {
+            if (plugin.setupHome) {
+              await options.assistant.data.migrate(plugin.name, plugin.schema?.home);
+              const data = options.assistant.data.createProperty(plugin.name);
+              return { plugin, setup: await plugin.setupHome({ ...opts, data, assistant: options.assistant }) };
             }
+            break;
           }
-          return { plugin };
-        })(),
-      );
+        }
+        return { plugin };
+      })();
+      setups.set(plugin.name, promise);
+      promises.push(promise);
     }
     const commands: AttachedCommand[] = [];
     for (const result of await Promise.all(promises)) {
@@ -96,32 +128,48 @@ export abstract class PluginAdapter<T extends PluginInterface> extends EventEmit
       const plugin = toAttachedPlugin(result.plugin);
       for (const [key, execute] of Object.entries(result.setup)) {
         if (!(execute instanceof Function)) continue; // just in case
-        const matched = key.match(/^(on|before|command)([A-Z]\w+)$/);
+        const matched = key.match(/^(on|before|use|command)([A-Z]\w+)$/);
         if (matched?.[1] === undefined || matched[2] === undefined) continue;
         const type = matched[1];
         const name = uncapitalize(matched[2]);
+        let handlers = this.#handlers.get(plugin.name);
+        if (!handlers) this.#handlers.set(plugin.name, (handlers = []));
         switch (type) {
           case 'on': {
-            this.on(name as keyof Events<T>, execute);
+            this.on(name as keyof Events<T>, execute as Listener);
+            handlers.push(['on', name, execute]);
+            let names = this.subscriptions.get(plugin.name);
+            if (!names) this.subscriptions.set(plugin.name, (names = []));
+            names.push(name);
             break;
           }
           case 'before': {
             let hooks = this.#hooks.get(name as keyof Hooks<T>);
             if (!hooks) this.#hooks.set(name as keyof Hooks<T>, (hooks = []));
-            hooks.push(execute);
+            insertByPriority(hooks, result.plugin.priorities?.[key as `before${string}`] ?? 0, execute);
+            handlers.push(['before', name, execute]);
+            break;
+          }
+          case 'use': {
+            let middlewares = this.#middlewares.get(name as keyof Middlewares<T>);
+            if (!middlewares) this.#middlewares.set(name as keyof Middlewares<T>, (middlewares = []));
+            insertByPriority(middlewares, result.plugin.priorities?.[key as `use${string}`] ?? 0, execute);
+            handlers.push(['use', name, execute]);
             break;
           }
           case 'command': {
-            commands.push({ id: toKebabCase(name), name, plugin, execute });
+            commands.push({ id: toKebabCase(name), name, plugin, execute: execute as AttachedCommand['execute'] });
             break;
           }
         }
       }
     }
-    for (const command of extractNonUnique(commands).filter((c) => c.name !== c.plugin.name.replace(/^\w+-/, ''))) {
+    // commands attached before are compared as well to keep the same ids on reattaching
+    const allCommands = [...[...this.commands.values()].map((c) => ({ ...c, id: toKebabCase(c.name) })), ...commands];
+    for (const command of extractNonUnique(allCommands).filter((c) => c.name !== c.plugin.name.replace(/^\w+-/, ''))) {
       command.id = `${toKebabCase(command.plugin.name.replace(/^[a-z]+-/, ''))}-${command.id}`;
     }
-    for (const command of extractNonUnique(commands).filter((c) => c.plugin.name.startsWith('general-'))) {
+    for (const command of extractNonUnique(allCommands).filter((c) => c.plugin.name.startsWith('general-'))) {
       command.id = `general-${command.id}`; // any better way? :thinking:
     }
     for (const command of commands) {
@@ -133,18 +181,93 @@ export abstract class PluginAdapter<T extends PluginInterface> extends EventEmit
     return {
       events: (this.eventNames() as string[]).sort(),
       hooks: [...this.#hooks.keys()].sort() as string[],
+      middlewares: [...this.#middlewares.keys()].sort() as string[],
       commands: [...this.commands].map(([id, { plugin }]) => `${plugin.name}:${id}`),
     };
   }
 
+  /**
+   * Detach the plugin, after calling its `beforeDestroy` with the arguments
+   */
+  protected async detach(pluginName: string, ...destroyArgs: unknown[]): Promise<void> {
+    const handlers = this.#handlers.get(pluginName) ?? [];
+    for (const [type, name, handler] of handlers) {
+      if (type === 'before' && name === 'destroy') await handler(...destroyArgs);
+    }
+    for (const [type, name, handler] of handlers) {
+      if (type === 'on') {
+        this.off(name as keyof Events<T>, handler as Listener);
+        continue;
+      }
+      const map = (type === 'before' ? this.#hooks : this.#middlewares) as Map<string, [number, Handler][]>;
+      const list = map.get(name)?.filter(([, h]) => h !== handler) ?? [];
+      if (list.length > 0) {
+        map.set(name, list);
+      } else {
+        map.delete(name);
+      }
+    }
+    for (const [id, command] of this.commands) {
+      if (command.plugin.name === pluginName) this.commands.delete(id);
+    }
+    this.#handlers.delete(pluginName);
+    this.subscriptions.delete(pluginName);
+    this.dicts.delete(pluginName);
+    this.attachments.delete(pluginName);
+  }
+
+  /**
+   * Replace the plugin with the latest one, and call its `onReady` as the adapter is already ready
+   */
+  protected async reattach(
+    resource: PluginManager,
+    pluginName: string,
+    options: AttachOptions,
+    destroyArgs: unknown[] = [],
+  ): Promise<void> {
+    await this.detach(pluginName, ...destroyArgs);
+    await this.attach(resource, { ...options, names: [pluginName] });
+    for (const [type, name, handler] of this.#handlers.get(pluginName) ?? []) {
+      if (type === 'on' && name === 'ready') await handler();
+    }
+  }
+
+  /**
+   * Call the hooks in descending order of the priorities, and stop it when one returns `false`
+   * @returns `false` if the hook is canceled
+   */
   async hook<P extends keyof Hooks<T>>(
     hookName: P,
     ...args: Hooks<T>[P] extends unknown[] ? Hooks<T>[P] : never
-  ): Promise<void> {
+  ): Promise<boolean> {
     const hooks = this.#hooks.get(hookName);
-    if (!hooks) return;
-    for (const hook of hooks) {
-      await hook(...args);
+    if (!hooks) return true;
+    for (const [, hook] of hooks) {
+      if ((await hook(...args)) === false) return false;
     }
+    return true;
+  }
+
+  /**
+   * Call the middlewares in descending order of the priorities, each of which calls `next` to continue,
+   * and the action at the end
+   */
+  async pipe<P extends keyof Middlewares<T>>(
+    middlewareName: P,
+    args: Middlewares<T>[P][0],
+    action: () => Promise<Middlewares<T>[P][1]>,
+  ): Promise<Middlewares<T>[P][1]> {
+    const middlewares = this.#middlewares.get(middlewareName) ?? [];
+    const next = async (index: number): Promise<Middlewares<T>[P][1]> => {
+      const middleware = middlewares[index];
+      if (!middleware) return action();
+      let called = false;
+      return (await middleware[1](...(args as unknown[]), async () => {
+        if (called) throw new Error(`next() called multiple times in ${String(middlewareName)}`);
+        called = true;
+        return next(index + 1);
+      })) as Middlewares<T>[P][1];
+    };
+    return next(0);
   }
 }
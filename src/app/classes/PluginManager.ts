@@ -1,4 +1,4 @@
-import type { ClientEvents, PermissionsString } from 'discord.js';
+import type { ClientEvents, GatewayIntentsString, PermissionsString } from 'discord.js';
 import { Events } from 'discord.js';
 import { capitalize, uncapitalize } from '../utils';
 import type { App } from './App';
@@ -6,6 +6,7 @@ import type { DiscordEventNames } from './DiscordManager';
 import type { GuildAssistant } from './GuildAssistant';
 import type { HomeAssistant } from './HomeAssistant';
 import type { I18nDictionary } from './I18nDictionary';
+import type { Logger } from './Logger';
 import type { ModuleLoader, ModuleReport } from './ModuleLoader';
 
 enum Status {
@@ -14,7 +15,7 @@ enum Status {
   ready,
 }
 
-type SetupReport = { modules: ModuleReport; events: DiscordEventNames };
+type SetupReport = { modules: ModuleReport; events: DiscordEventNames; intents: GatewayIntentsString[] };
 
 type PluginSetupContext = {
   data: BasicObject;
@@ -24,13 +25,14 @@ type PluginSetupContext = {
 };
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-type PluginSetupResult = Awaitable<Record<string, (...args: any) => Awaitable<void>>>;
+type PluginSetupResult = Awaitable<Record<string, (...args: any) => Awaitable<unknown>>>;
 
 export type AdaptablePlugin = {
   name: string;
   description: string;
   config: BasicObject;
   permissions: Record<string, PermissionsString[]>;
+  slots?: Record<string, Record<string, CommandSlot>>;
   i18n: I18n<{
     command?: Record<
       string,
@@ -44,6 +46,12 @@ export type AdaptablePlugin = {
     >;
     dict?: Record<string, string | string[]>;
   }>;
+  schema?: Partial<Record<'app' | 'guild' | 'home', PluginDataSchema>>;
+  events?: PluginDiscordEvents;
+  intents?: GatewayIntentsString[];
+  dependencies?: string[];
+  optionalDependencies?: string[];
+  priorities?: Partial<Record<`${'before' | 'use'}${string}`, number>>;
   setupApp?(context: PluginSetupContext): PluginSetupResult;
   setupGuild?(context: PluginSetupContext & { assistant: GuildAssistant }): PluginSetupResult;
   setupHome?(context: PluginSetupContext & { assistant: HomeAssistant }): PluginSetupResult;
@@ -66,14 +74,57 @@ export type PluginContextOptions<T extends boolean = boolean> = {
 
 export type PluginManagerOptions = PluginContextOptions<true>;
 
+// dependencies first, otherwise in the order of the options
+function sortPlugins(plugins: AdaptablePlugin[], warn: (message: string) => void): AdaptablePlugin[] {
+  const available = new Map(plugins.map((plugin) => [plugin.name, plugin]));
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (const plugin of available.values()) {
+      const missing = (plugin.dependencies ?? []).filter((name) => !available.has(name));
+      if (missing.length === 0) continue;
+      warn(`Disabled ${plugin.name}, missing dependencies: ${missing.join(', ')}`);
+      available.delete(plugin.name);
+      changed = true; // the dependents might be disabled as well
+    }
+  }
+  for (const plugin of available.values()) {
+    const missing = (plugin.optionalDependencies ?? []).filter((name) => !available.has(name));
+    if (missing.length === 0) continue;
+    warn(`Limited ${plugin.name}, missing optional dependencies: ${missing.join(', ')}`);
+  }
+  const sorted = new Set<AdaptablePlugin>();
+  const visiting = new Set<AdaptablePlugin>();
+  const visit = (plugin: AdaptablePlugin): void => {
+    if (sorted.has(plugin)) return;
+    if (visiting.has(plugin)) {
+      warn(`Circular dependencies: ${plugin.name}`);
+      return;
+    }
+    visiting.add(plugin);
+    for (const name of [...(plugin.dependencies ?? []), ...(plugin.optionalDependencies ?? [])]) {
+      const dependency = available.get(name);
+      if (dependency) visit(dependency);
+    }
+    visiting.delete(plugin);
+    sorted.add(plugin);
+  };
+  for (const plugin of available.values()) {
+    visit(plugin);
+  }
+  return [...sorted];
+}
+
 export class PluginManager {
   readonly #options: PluginManagerOptions;
   readonly #loader: ModuleLoader<IPlugin, AdaptablePlugin>;
+  readonly #warnings: Set<string>;
+  #log: Logger | undefined;
   #status: Status;
 
   constructor(options: PluginManagerOptions, loader: ModuleLoader) {
     this.#options = options;
     this.#loader = loader as ModuleLoader<IPlugin, AdaptablePlugin>;
+    this.#warnings = new Set();
     this.#status = Status.unready;
   }
 
@@ -84,10 +135,17 @@ export class PluginManager {
       const plugin = this.#loader.get(key);
       if (!plugin) continue;
       for (const [adapter, names] of Object.entries(result)) {
+        const declared = plugin.events?.[adapter as keyof PluginDiscordEvents];
+        if (declared) {
+          for (const name of declared) {
+            names.add(name);
+          }
+          continue;
+        }
         const setup = (plugin as Record<string, unknown>)[`setup${capitalize(adapter)}`];
         if (!(setup instanceof Function)) continue;
         const matched = setup
-          .toString() // it's not perfect but okay in most of cases
+          .toString() // fallback without `events`, it's not perfect but okay in most of cases
           .replaceAll(/(\/\/.*|'.*?'|".*?")/g, '')
           .replaceAll(/(\/\*.*\*\/|`.*?`)/gs, '')
           .matchAll(/on([A-Z][a-z]+[A-Z][A-Za-z]+)/g);
@@ -103,19 +161,37 @@ export class PluginManager {
     };
   }
 
+  get #intentNames(): GatewayIntentsString[] {
+    const result = new Set<GatewayIntentsString>();
+    for (const key of Object.keys(this.#options)) {
+      for (const intent of this.#loader.get(key)?.intents ?? []) {
+        result.add(intent);
+      }
+    }
+    return [...result];
+  }
+
   get #report(): SetupReport {
-    return { modules: this.#loader.createReport(this.#options), events: this.#discordEventNames };
+    return {
+      modules: this.#loader.createReport(this.#options),
+      events: this.#discordEventNames,
+      intents: this.#intentNames,
+    };
   }
 
-  async setup(): Promise<SetupReport> {
+  async setup(app: App): Promise<SetupReport> {
     if (this.#status !== Status.unready) return this.#report;
     this.#status = Status.preparing;
-    await this.#loader.load((source) => ({
-      config: {},
-      permissions: {},
-      i18n: {},
-      ...source, // might have extra properties at runtime and overwrite those empty objects
-    }));
+    this.#log = app.log.createChild('PLUGIN');
+    await this.#loader.load(
+      (source) => ({
+        config: {},
+        permissions: {},
+        i18n: {},
+        ...source, // might have extra properties at runtime and overwrite those empty objects
+      }),
+      Object.keys(this.#options),
+    );
     this.#status = Status.ready;
     return this.#report;
   }
@@ -124,6 +200,17 @@ export class PluginManager {
     return this.#loader.get(name);
   }
 
+  watch(listener: (name: string) => Awaitable<void>, errorHandler: ErrorHandler): void {
+    if (this.#status !== Status.ready) return;
+    this.#loader.watch(async (name) => {
+      if (name in this.#options) await listener(name);
+    }, errorHandler);
+  }
+
+  unwatch(): void {
+    this.#loader.unwatch();
+  }
+
   createContext(optionsList: PluginContextOptions[] = []): AdaptablePlugin[] {
     if (this.#status !== Status.ready) return [];
     const plugins: AdaptablePlugin[] = [];
@@ -151,6 +238,13 @@ export class PluginManager {
       }
       plugins.push({ ...plugin, ...structuredClone(options) });
     }
-    return plugins;
+    return sortPlugins(plugins, this.#warn);
   }
+
+  // warn once, createContext() is called for each guild
+  #warn = (message: string): void => {
+    if (this.#warnings.has(message)) return;
+    this.#warnings.add(message);
+    this.#log?.warn(message);
+  };
 }
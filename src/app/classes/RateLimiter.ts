@@ -0,0 +1,100 @@
+import { isObject } from '../utils';
+
+// full buckets are dropped beyond this to keep the memory usage low
+const MaxBuckets = 10_000;
+
+type Bucket = [tokens: number, updatedAt: number];
+
+export type RateLimit = {
+  /**
+   * Number of commands to run in a row
+   */
+  burst: number;
+  /**
+   * Time to recover one command in milliseconds
+   */
+  refill: number;
+};
+
+export type RateLimiterOptions = {
+  /**
+   * Limit for each user on any commands
+   */
+  user?: RateLimit;
+  /**
+   * Limit for each user on each command
+   */
+  command?: RateLimit;
+  /**
+   * Limit for the whole guild
+   */
+  guild?: RateLimit;
+  /**
+   * Store the counters in the guild data to keep them after restarting
+   * @default false
+   */
+  persist?: boolean;
+};
+
+/**
+ * Token buckets of the commands, each command takes a token from the buckets of the user, the command and the guild
+ */
+export class RateLimiter {
+  readonly persist: boolean;
+  readonly #limits: [scope: 'user' | 'command' | 'guild', limit: RateLimit][];
+  readonly #buckets: Map<string, Bucket>;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.persist = options.persist ?? false;
+    this.#limits = [];
+    for (const scope of ['user', 'command', 'guild'] as const) {
+      const limit = options[scope];
+      if (limit) this.#limits.push([scope, limit]);
+    }
+    this.#buckets = new Map();
+  }
+
+  get enabled(): boolean {
+    return this.#limits.length > 0;
+  }
+
+  /**
+   * Take a token from each bucket, nothing is taken if any of them is empty
+   * @returns `false` if throttled
+   */
+  consume(userId: string, commandId: string, now = Date.now()): boolean {
+    const entries = this.#limits.map(([scope, limit]) => {
+      const key = scope === 'user' ? `user:${userId}` : scope === 'command' ? `command:${userId}:${commandId}` : scope;
+      const [tokens, updatedAt] = this.#buckets.get(key) ?? [limit.burst, now];
+      const refilled = Math.min(limit.burst, tokens + Math.max(0, now - updatedAt) / limit.refill);
+      return [key, refilled] as const;
+    });
+    if (entries.some(([, tokens]) => tokens < 1)) return false;
+    for (const [key, tokens] of entries) {
+      this.#buckets.set(key, [tokens - 1, now]);
+    }
+    if (this.#buckets.size > MaxBuckets) this.#prune(now);
+    return true;
+  }
+
+  load(data: BasicValue | undefined): void {
+    if (!isObject(data)) return;
+    for (const [key, value] of Object.entries(data)) {
+      if (!Array.isArray(value) || typeof value[0] !== 'number' || typeof value[1] !== 'number') continue;
+      this.#buckets.set(key, [value[0], value[1]]);
+    }
+  }
+
+  toJSON(now = Date.now()): Record<string, Bucket> {
+    this.#prune(now);
+    return Object.fromEntries(this.#buckets);
+  }
+
+  #prune(now: number): void {
+    for (const [key, [tokens, updatedAt]] of this.#buckets) {
+      const scope = key.split(':')[0];
+      const limit = this.#limits.find(([s]) => s === scope)?.[1];
+      if (!limit || tokens + (now - updatedAt) / limit.refill >= limit.burst) this.#buckets.delete(key);
+    }
+  }
+}
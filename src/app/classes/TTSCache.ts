@@ -0,0 +1,158 @@
+import { createHash } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import { mkdir, readFile, readdir, rename, stat, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { PassThrough } from 'node:stream';
+
+const CacheDir = join(__dirname, '../../../tmp/cache/tts/');
+
+const DefaultSize = 100 * 1024 * 1024;
+
+const DefaultAge = 7 * 24 * 60 * 60 * 1000;
+
+type Entry = {
+  size: number;
+  created: number;
+  used: number;
+  /**
+   * Request normalized by the engine, e.g. the default voice instead of empty
+   */
+  request: TTSRequest;
+};
+
+export type TTSCacheOptions = {
+  /**
+   * Max total size of cached audio in bytes
+   * @default 104_857_600
+   */
+  size?: number;
+  /**
+   * Max age of cached audio in milliseconds
+   * @default 604_800_000
+   */
+  age?: number;
+};
+
+export class TTSCache {
+  readonly name: string;
+  readonly #dir: string;
+  readonly #size: number;
+  readonly #age: number;
+  readonly #entries: Map<string, Entry>;
+  readonly #saving: Set<Promise<void>>;
+  #total: number;
+  #hits: number;
+  #misses: number;
+
+  constructor(name: string, options: TTSCacheOptions = {}, dir = join(CacheDir, name)) {
+    this.name = name;
+    this.#dir = dir;
+    this.#size = options.size ?? DefaultSize;
+    this.#age = options.age ?? DefaultAge;
+    this.#entries = new Map();
+    this.#saving = new Set();
+    this.#total = 0;
+    this.#hits = 0;
+    this.#misses = 0;
+  }
+
+  get stats(): { hits: number; misses: number; entries: number; size: number } {
+    return { hits: this.#hits, misses: this.#misses, entries: this.#entries.size, size: this.#total };
+  }
+
+  async setup(): Promise<void> {
+    await mkdir(this.#dir, { recursive: true });
+    for (const file of await readdir(this.#dir)) {
+      if (!/^[\da-f]{64}$/.test(file)) continue;
+      const path = join(this.#dir, file);
+      const request = await readFile(`${path}.json`, 'utf8')
+        .then((json) => JSON.parse(json) as TTSRequest)
+        .catch(() => undefined);
+      if (!request) {
+        await unlink(path).catch(() => {}); // cached without the request
+        continue;
+      }
+      const { size, mtimeMs } = await stat(path);
+      this.#entries.set(file, { size, created: mtimeMs, used: mtimeMs, request });
+      this.#total += size;
+    }
+    await this.#evict();
+  }
+
+  wrap(generate: (request: TTSRequest) => Promise<TTSResponse>): (request: TTSRequest) => Promise<TTSResponse> {
+    return async (request) => {
+      const key = this.#createKey(request);
+      const entry = this.#entries.get(key);
+      if (entry) {
+        if (Date.now() - entry.created < this.#age) {
+          this.#hits++;
+          entry.used = Date.now();
+          return { ...entry.request, resource: createReadStream(join(this.#dir, key)) };
+        }
+        await this.#delete(key);
+      }
+      this.#misses++;
+      const response = await generate(request);
+      const chunks: Buffer[] = [];
+      const resource = new PassThrough();
+      response.resource.on('data', (chunk: Buffer) => chunks.push(chunk));
+      response.resource.once('error', (error) => resource.destroy(error));
+      response.resource.once('end', () => {
+        const { voice, speed, pitch, text } = response;
+        const saving = this.#save(key, Buffer.concat(chunks), { voice, speed, pitch, text })
+          .catch(() => {})
+          .finally(() => this.#saving.delete(saving));
+        this.#saving.add(saving);
+      });
+      response.resource.pipe(resource);
+      return { ...response, resource };
+    };
+  }
+
+  /**
+   * Wait for the generated audio to be saved
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.#saving);
+  }
+
+  async clear(): Promise<void> {
+    await Promise.all([...this.#entries.keys()].map(async (key) => this.#delete(key)));
+  }
+
+  #createKey({ voice, speed, pitch, text }: TTSRequest): string {
+    return createHash('sha256')
+      .update(JSON.stringify([this.name, voice, speed, pitch, text]))
+      .digest('hex');
+  }
+
+  async #save(key: string, data: Buffer, request: TTSRequest): Promise<void> {
+    if (data.length === 0 || data.length > this.#size || this.#entries.has(key)) return;
+    const path = join(this.#dir, key);
+    await writeFile(`${path}.json`, JSON.stringify(request));
+    await writeFile(`${path}.tmp`, data);
+    await rename(`${path}.tmp`, path); // to avoid to read a partially written file
+    const now = Date.now();
+    this.#entries.set(key, { size: data.length, created: now, used: now, request });
+    this.#total += data.length;
+    await this.#evict();
+  }
+
+  async #delete(key: string): Promise<void> {
+    const entry = this.#entries.get(key);
+    if (!entry) return;
+    this.#entries.delete(key);
+    this.#total -= entry.size;
+    await unlink(join(this.#dir, key)).catch(() => {});
+    await unlink(join(this.#dir, `${key}.json`)).catch(() => {});
+  }
+
+  async #evict(): Promise<void> {
+    const now = Date.now();
+    const entries = [...this.#entries].sort(([, a], [, b]) => a.used - b.used);
+    for (const [key, entry] of entries) {
+      if (this.#total <= this.#size && now - entry.created < this.#age) continue;
+      await this.#delete(key);
+    }
+  }
+}
@@ -0,0 +1,74 @@
+const DefaultSize = 1000;
+
+const DefaultAge = 24 * 60 * 60 * 1000;
+
+type Entry = {
+  response: TranslatorResponse;
+  created: number;
+};
+
+export type TranslatorCacheOptions = {
+  /**
+   * Max number of cached translations
+   * @default 1000
+   */
+  size?: number;
+  /**
+   * Max age of cached translations in milliseconds
+   * @default 86_400_000
+   */
+  age?: number;
+};
+
+export class TranslatorCache {
+  readonly name: string;
+  readonly #size: number;
+  readonly #age: number;
+  readonly #entries: Map<string, Entry>;
+  #hits: number;
+  #misses: number;
+
+  constructor(name: string, options: TranslatorCacheOptions = {}) {
+    this.name = name;
+    this.#size = options.size ?? DefaultSize;
+    this.#age = options.age ?? DefaultAge;
+    this.#entries = new Map();
+    this.#hits = 0;
+    this.#misses = 0;
+  }
+
+  get stats(): { hits: number; misses: number; entries: number } {
+    return { hits: this.#hits, misses: this.#misses, entries: this.#entries.size };
+  }
+
+  wrap(
+    translate: (request: TranslatorRequest) => Promise<TranslatorResponse>,
+  ): (request: TranslatorRequest) => Promise<TranslatorResponse> {
+    return async (request) => {
+      const key = JSON.stringify([request.text, request.from ?? '', request.to]);
+      const entry = this.#entries.get(key);
+      if (entry) {
+        this.#entries.delete(key);
+        if (Date.now() - entry.created < this.#age) {
+          this.#hits++;
+          this.#entries.set(key, entry); // move to the end as recently used
+          return { ...entry.response };
+        }
+      }
+      this.#misses++;
+      const response = await translate(request);
+      if (response.text.length > 0) {
+        this.#entries.set(key, { response: { ...response }, created: Date.now() });
+        for (const key of this.#entries.keys()) {
+          if (this.#entries.size <= this.#size) break;
+          this.#entries.delete(key);
+        }
+      }
+      return response;
+    };
+  }
+
+  clear(): void {
+    this.#entries.clear();
+  }
+}
@@ -1,7 +1,9 @@
+export * from './AdminServer';
 export * from './App';
 export * from './Assistant';
 export * from './Datastore';
 export * from './DiscordManager';
+export * from './EngineHealth';
 export * from './EngineManager';
 export * from './EventEmitter';
 export * from './GuildAssistant';
@@ -10,7 +12,12 @@ export * from './GuildAudioReceiver';
 export * from './GuildVoiceChannel';
 export * from './HomeAssistant';
 export * from './I18nDictionary';
+export * from './LocalWakeWordDetector';
 export * from './Logger';
+export * from './Metrics';
 export * from './ModuleLoader';
 export * from './PluginAdapter';
 export * from './PluginManager';
+export * from './RateLimiter';
+export * from './TTSCache';
+export * from './TranslatorCache';
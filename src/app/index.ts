@@ -1,3 +1,7 @@
 import { App } from './classes';
 
-App.launch();
+if (App.argv()['migrate-store']) {
+  App.migrate();
+} else {
+  App.launch();
+}
@@ -6,6 +6,10 @@ type PlayableAudio = {
 } & import('../classes').EventEmitter<{
   error: [error: unknown];
   ready: [];
+  /**
+   * Canceled before generated, e.g. by a `beforeSpeak` hook, and skipped without playing
+   */
+  cancel: [];
   start: [];
   end: [];
 }>;
@@ -37,18 +41,41 @@ type RecognizableAudio<T extends AssistantType = AssistantType> = (T extends 'gu
   readonly results: string[];
   readonly transcript: string;
   readonly aborted: boolean;
-  abort(): void;
+  /**
+   * @param error failure of the STT engine, omitted when the caller aborts
+   */
+  abort(error?: unknown): void;
 } & import('../classes').EventEmitter<{
     ready: [];
     start: [request: STTRequest<T>];
     end: [request: STTRequest<T>];
-    abort: [];
+    abort: [error?: unknown];
     result: [transcript: string, isFinal: boolean];
   }>;
 
+/**
+ * Type of a command option, or choices of it
+ * - `duration`: milliseconds, e.g. "90", "1:30", "1h 30m"
+ * - `member`, `channel`: guild member or text or voice channel by mention or name, only for guild commands
+ * - `language`: translation language by code or name, e.g. "ja", "Japanese", "日本語"
+ */
+type CommandSlot = 'string' | 'number' | 'duration' | 'member' | 'channel' | 'language' | readonly string[];
+
+type CommandSlotValue<T extends CommandSlot = CommandSlot> = T extends 'number' | 'duration'
+  ? number
+  : T extends 'member'
+  ? import('discord.js').GuildMember
+  : T extends 'channel'
+  ? import('discord.js').GuildBasedChannel
+  : T extends 'language'
+  ? TranslationLanguage
+  : T extends readonly (infer U)[]
+  ? U
+  : string;
+
 type CommandEvent<
   T extends AssistantType = AssistantType,
-  U extends Record<string, string> = Record<string, string>,
+  U extends Record<string, CommandSlotValue> = Record<string, CommandSlotValue>,
 > = {
   readonly locale: Locale;
   readonly options: U;
@@ -64,11 +91,16 @@ type CommandEvent<
           readonly type: 'text';
           readonly source: import('discord.js').Message<true>;
           readonly script: string;
+          readonly score: number;
         }
       | {
           readonly type: 'voice';
           readonly source: RecognizableAudio<'guild'>;
           readonly script: string;
+          /**
+           * 1 for an exact match, less for a fuzzy one
+           */
+          readonly score: number;
         }
     ) & {
       readonly member: import('discord.js').GuildMember;
@@ -77,6 +109,14 @@ type CommandEvent<
         options: string | import('discord.js').MessageCreateOptions,
         result?: 'success' | 'failure',
       ) => Promise<import('discord.js').Message<true>>;
+      /**
+       * Post or speak a prompt, then wait for the member's next text message in the channel or voice transcript
+       * @returns `undefined` if timed out
+       */
+      ask: (
+        prompt: string | import('discord.js').MessageCreateOptions,
+        options?: { timeout?: number },
+      ) => Promise<string | undefined>;
     }
   : {
       readonly type: 'home';
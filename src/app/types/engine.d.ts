@@ -4,6 +4,14 @@ type IStore = {
   readonly name: string;
   get(key: string): Promise<BasicObject | undefined>;
   set(key: string, value: BasicObject): Promise<boolean>;
+  /**
+   * List all keys, required to migrate data to another store
+   */
+  keys?(): Promise<string[]>;
+  /**
+   * Release resources after the last save, e.g. close the database
+   */
+  destroy?(): Promise<void>;
 };
 
 type TranslatorRequest = {
@@ -14,6 +22,11 @@ type TranslatorRequest = {
 
 type TranslatorResponse = Required<TranslatorRequest>;
 
+/**
+ * Terms and their substitutions per language, terms without a substitution are kept as they are
+ */
+type TranslatorGlossary = Record<string, Partial<Record<TranslationLanguage, string>>>;
+
 type ITranslator = {
   readonly name: string;
   readonly active: boolean;
@@ -83,6 +96,19 @@ type IEngine<T extends BasicObject | undefined = undefined> = { description: str
       }
   );
 
-type AvailableEngine<T extends BasicObject | undefined = undefined> = T extends object ? Partial<T> | true : true;
+type EngineOptions = {
+  /**
+   * Cache settings, only for translator and TTS engines
+   */
+  cache?: import('../classes').TranslatorCacheOptions | import('../classes').TTSCacheOptions | boolean;
+  /**
+   * Health tracking settings to skip the engine temporarily while it keeps failing, except for store engines
+   */
+  health?: import('../classes').EngineHealthOptions;
+};
+
+type AvailableEngine<T extends BasicObject | undefined = undefined> = T extends object
+  ? (Partial<T> & EngineOptions) | true
+  : EngineOptions | true;
 
 interface AvailableEngines {}
@@ -31,4 +31,8 @@ type Env = {
    * Home settings
    */
   home?: import('../classes').HomeAssistantOptions;
+  /**
+   * Admin HTTP server settings
+   */
+  admin?: import('../classes').AdminServerOptions;
 };
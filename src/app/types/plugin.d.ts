@@ -1,10 +1,23 @@
 type PluginOptions = {
   config?: BasicObject;
-  command?: Record<string, { type: 'guild' | 'home'; options?: string }>;
+  command?: Record<string, { type: 'guild' | 'home'; options?: string; slots?: Record<string, CommandSlot> }>;
   dict?: Record<string, { type: 'simple' | 'random'; options?: string }>;
   data?: Partial<Record<'app' | 'guild' | 'home', BasicObject>>;
 };
 
+type PluginDataSchema = {
+  /**
+   * Current version of the data shape, starting from 1
+   */
+  version: number;
+  /**
+   * Migrations to each version from the previous one, e.g. `{ 2: (data) => ({ ...data, volume: data['volume'] ?? 10 }) }`
+   *
+   * Data saved before the schema is declared is regarded as version 1, even if it has a later shape
+   */
+  migrations: Record<number, (data: BasicObject) => Awaitable<BasicObject>>;
+};
+
 type AppHandlers = Partial<import('../classes').AppInterface>;
 
 type GuildHandlers<T extends PluginOptions = {}> = Partial<import('../classes').GuildAssistantInterface> &
@@ -21,11 +34,26 @@ type CommandHandlers<T extends PluginOptions, U extends 'guild' | 'home'> = {
     : never]: (
     event: CommandEvent<
       U,
-      T['command'][P] extends { options: string } ? Record<T['command'][P]['options'], string> : {}
+      T['command'][P] extends { options: string }
+        ? {
+            [O in T['command'][P]['options']]: T['command'][P] extends { slots: Record<O, CommandSlot> }
+              ? CommandSlotValue<T['command'][P]['slots'][O]>
+              : string;
+          }
+        : {}
     >,
   ) => Awaitable<void | boolean>;
 };
 
+/**
+ * `slots` of a plugin derived from the ones in `PluginOptions`, which are types only and need the same values at runtime
+ */
+type CommandSlots<T extends PluginOptions> = {
+  [P in keyof NonNullable<T['command']> as NonNullable<T['command']>[P] extends { slots: object }
+    ? P
+    : never]: NonNullable<T['command']>[P] extends { slots: infer U } ? U : never;
+};
+
 type SetupContext<T extends PluginOptions, U extends 'app' | 'guild' | 'home'> = {
   config: T['config'] extends object ? T['config'] : {};
   dict: SetupContextDictionary<T>;
@@ -46,7 +74,42 @@ type SetupContextDictionary<T extends PluginOptions> = Omit<import('../classes')
   ): string;
 };
 
-type IPlugin<T extends PluginOptions = {}> = { description: string } & Omit<AvailablePlugin<T>, 'data'> &
+type PluginDiscordEvents = {
+  /**
+   * Discord events handled in `setupApp`, e.g. `['messageCreate']` for direct messages
+   */
+  app?: (keyof import('discord.js').ClientEvents)[];
+  /**
+   * Discord events handled in `setupGuild`, e.g. `['messageReactionAdd', 'voiceStateUpdate']`
+   */
+  guild?: (keyof import('discord.js').ClientEvents)[];
+};
+
+type IPlugin<T extends PluginOptions = {}> = {
+  description: string;
+  /**
+   * Discord events to subscribe, scanned from the source code of the setup functions if omitted
+   */
+  events?: PluginDiscordEvents;
+  /**
+   * Gateway intents required in addition to the ones of the events, e.g. `['GuildPresences']`
+   */
+  intents?: import('discord.js').GatewayIntentsString[];
+  /**
+   * Plugins to be set up before, the plugin is disabled without them
+   */
+  dependencies?: string[];
+  /**
+   * Plugins to be set up before if enabled, the plugin works without them
+   */
+  optionalDependencies?: string[];
+  /**
+   * Priorities of the hooks and middlewares, higher ones are called first, e.g. `{ beforeSpeak: 100 }` to check the text before changed
+   * @default 0 for each, called in the order of the dependencies
+   */
+  priorities?: Partial<Record<`${'before' | 'use'}${string}`, number>>;
+} & Omit<AvailablePlugin<T>, 'data'> &
+  (T['data'] extends object ? { schema?: { [P in keyof T['data']]?: PluginDataSchema } } : {}) &
   (
     | {
         name: `general-${string}`;
@@ -91,6 +154,7 @@ type AvailablePlugin<T extends PluginOptions = {}> = (T['data'] extends object
         }
       : {}
     : {}) &
+  ({} extends CommandSlots<T> ? {} : { slots: CommandSlots<T> }) &
   (T extends { command: object } | { dict: object }
     ? {
         i18n: I18n<
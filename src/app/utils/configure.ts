@@ -7,6 +7,7 @@ type Field = {
   name: string;
   options: { label: string; value: string }[];
   disabled?: boolean;
+  summary?: string; // shown in the embed instead of the selected option
   value: string;
   page?: number;
 };
@@ -72,7 +73,10 @@ export function configure<
       select.setDisabled();
     }
     rows.push(new ActionRowBuilder<StringSelectMenuBuilder>().setComponents(select));
-    embed.addFields({ name: field.name, value: field.options.find((opt) => opt.value === field.value)?.label ?? '-' });
+    embed.addFields({
+      name: field.name,
+      value: field.summary ?? field.options.find((opt) => opt.value === field.value)?.label ?? '-',
+    });
   }
   return { message: { content: '', embeds: [embed], components: rows }, data, updated };
 }
@@ -0,0 +1,14 @@
+// signed 16-bit little-endian mono, averaging every `ratio` samples
+export function downsamplePCM(pcm: Buffer, ratio: number): Buffer {
+  if (ratio === 1) return pcm;
+  const samples = Math.floor(pcm.length / 2 / ratio);
+  const output = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    let sum = 0;
+    for (let j = 0; j < ratio; j++) {
+      sum += pcm.readInt16LE((i * ratio + j) * 2);
+    }
+    output.writeInt16LE(Math.round(sum / ratio), i * 2);
+  }
+  return output;
+}
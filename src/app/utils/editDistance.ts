@@ -0,0 +1,16 @@
+// Levenshtein distance by code points
+export function editDistance(a: string, b: string): number {
+  const source = [...a];
+  const target = [...b];
+  let prev = Array.from({ length: target.length + 1 }, (_, i) => i);
+  for (const [i, char] of source.entries()) {
+    const current = [i + 1];
+    for (const [j, targetChar] of target.entries()) {
+      current.push(
+        Math.min((prev[j + 1] ?? 0) + 1, (current[j] ?? 0) + 1, (prev[j] ?? 0) + (char === targetChar ? 0 : 1)),
+      );
+    }
+    prev = current;
+  }
+  return prev[target.length] ?? 0;
+}
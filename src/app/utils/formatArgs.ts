@@ -0,0 +1,4 @@
+// replace `${name}` placeholders in command line arguments
+export function formatArgs(args: string[], params: Record<string, Stringable>): string[] {
+  return args.map((arg) => arg.replaceAll(/\${(.+?)}/g, (_, p: string) => params[p]?.toString() ?? ''));
+}
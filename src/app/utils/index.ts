@@ -1,6 +1,10 @@
 export * from './capitalize';
 export * from './configure';
 export * from './decodeMessage';
+export * from './downsamplePCM';
+export * from './editDistance';
+export * from './escapeRegExp';
+export * from './formatArgs';
 export * from './formatDate';
 export * from './isLanguage';
 export * from './isLocale';
@@ -8,9 +12,13 @@ export * from './isObject';
 export * from './isRegionLocale';
 export * from './isTranslationLanguage';
 export * from './localize';
+export * from './normalizeSpeech';
 export * from './omitObject';
 export * from './omitString';
+export * from './parseDuration';
+export * from './parseSlot';
 export * from './pickRandom';
+export * from './protectTerms';
 export * from './rand';
 export * from './selectLocale';
 export * from './shortenId';
@@ -19,4 +27,5 @@ export * from './toKebabCase';
 export * from './toLanguage';
 export * from './toRegionLocales';
 export * from './toTranslationLanguage';
+export * from './toVoiceLocale';
 export * from './uncapitalize';
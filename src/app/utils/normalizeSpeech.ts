@@ -0,0 +1,8 @@
+// to compare transcripts phonetically, e.g. "イワシ、" and "いわし"
+export function normalizeSpeech(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replaceAll(/[ァ-ヶ]/g, (char) => String.fromCodePoint((char.codePointAt(0) ?? 0) - 0x60))
+    .replaceAll(/[\s\p{P}\p{S}]/gu, '');
+}
@@ -0,0 +1,28 @@
+const ClockPattern = /^(\d+):(\d{1,2})(?::(\d{1,2}))?$/;
+
+const UnitPattern =
+  /(\d+(?:\.\d+)?)\s*(hours?|hrs?|h|時間|小时|小時|minutes?|mins?|m|分钟|分鐘|分|seconds?|secs?|s|秒)(?![a-z])/gi;
+
+const UnitSeconds: [pattern: RegExp, seconds: number][] = [
+  [/^[h小時]/i, 3600],
+  [/^[m分]/i, 60],
+  [/^[s秒]/i, 1],
+];
+
+// parse "90", "1:30", "1h 30m", "1 hour and 30 minutes", "1時間30分", etc. into milliseconds
+export function parseDuration(text: string): number | undefined {
+  const value = text.normalize('NFKC').trim();
+  if (/^\d+(\.\d+)?$/.test(value)) return Number.parseFloat(value) * 1000;
+  const clock = value.match(ClockPattern);
+  if (clock) {
+    const [hours, minutes, seconds] = clock[3] === undefined ? ['0', clock[1], clock[2]] : clock.slice(1);
+    return (Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000;
+  }
+  let seconds = 0;
+  const rest = value.replaceAll(UnitPattern, (_, amount: string, unit: string) => {
+    seconds += Number.parseFloat(amount) * (UnitSeconds.find(([pattern]) => pattern.test(unit))?.[1] ?? 0);
+    return ' ';
+  });
+  if (rest === value || !/^(\s|,|and|と)*$/i.test(rest)) return undefined;
+  return seconds * 1000;
+}
@@ -0,0 +1,37 @@
+import { Languages, TranslationLanguages } from '../enums';
+import { isTranslationLanguage } from './isTranslationLanguage';
+import { parseDuration } from './parseDuration';
+
+function parseLanguage(text: string): TranslationLanguage | undefined {
+  const value = text.toLowerCase();
+  for (const [lang, name] of Object.entries(TranslationLanguages)) {
+    if (!isTranslationLanguage(lang)) continue;
+    const localName = (Languages as Record<string, string>)[lang];
+    if ([lang.toLowerCase(), name.toLowerCase(), localName?.toLowerCase()].includes(value)) return lang;
+  }
+  return undefined;
+}
+
+// parse a slot value except guild members and channels, `undefined` if invalid
+export function parseSlot(slot: CommandSlot, text: string): string | number | undefined {
+  const value = text.normalize('NFKC').trim();
+  if (typeof slot !== 'string') return slot.find((choice) => choice.toLowerCase() === value.toLowerCase());
+  switch (slot) {
+    case 'string': {
+      return text;
+    }
+    case 'number': {
+      const number = Number(value.replaceAll(',', ''));
+      return value.length > 0 && Number.isFinite(number) ? number : undefined;
+    }
+    case 'duration': {
+      return parseDuration(value);
+    }
+    case 'language': {
+      return parseLanguage(value);
+    }
+    default: {
+      return undefined;
+    }
+  }
+}
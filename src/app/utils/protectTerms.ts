@@ -0,0 +1,36 @@
+import { escapeRegExp } from './escapeRegExp';
+
+const PlaceholderPattern = /{{\s*(\d+)\s*}}/g;
+
+function createTermPattern(term: string): string {
+  const pattern = escapeRegExp(term);
+  const before = /^[\dA-Za-z]/.test(term) ? '(?<![\\dA-Za-z])' : '';
+  const after = /[\dA-Za-z]$/.test(term) ? '(?![\\dA-Za-z])' : ''; // to avoid to match a part of a word
+  return `${before}${pattern}${after}`;
+}
+
+// replace glossary terms with `{{index}}` placeholders not to be translated, and restore them with substitutions
+// distinct from `<::id>` of custom emojis
+export function protectTerms(
+  text: string,
+  glossary: TranslatorGlossary,
+  to: TranslationLanguage,
+): [text: string, restore: (text: string) => string] {
+  const terms = Object.keys(glossary)
+    .filter((term) => term.length > 0)
+    .sort((a, b) => b.length - a.length);
+  if (terms.length === 0) return [text, (text) => text];
+  const substitutions: string[] = [];
+  const pattern = new RegExp(terms.map((term) => createTermPattern(term)).join('|'), 'gi');
+  const protectedText = text.replaceAll(pattern, (matched) => {
+    const term = terms.find((term) => term.toLowerCase() === matched.toLowerCase());
+    const substitution = (term && glossary[term]?.[to]) ?? matched;
+    let index = substitutions.indexOf(substitution);
+    if (index === -1) index = substitutions.push(substitution) - 1;
+    return `{{${index}}}`;
+  });
+  if (substitutions.length === 0) return [text, (text) => text];
+  const restore = (text: string): string =>
+    text.replaceAll(PlaceholderPattern, (matched, index: string) => substitutions[Number(index)] ?? matched);
+  return [protectedText, restore];
+}
@@ -0,0 +1,17 @@
+import { isLocale } from './isLocale';
+
+const VoiceLocales: Record<string, Locale> = {
+  cmn: 'zh-CN',
+  'cmn-latn-pinyin': 'zh-CN',
+  yue: 'zh-HK',
+};
+
+// locale code of local voices and models, e.g. "en-us", "en_US", "cmn"
+export function toVoiceLocale(code: string): Locale | undefined {
+  const mapped = VoiceLocales[code.toLowerCase()];
+  if (mapped) return mapped;
+  const [main, sub] = code.replaceAll('_', '-').toLowerCase().split('-');
+  if (!main) return undefined;
+  const locale = sub ? `${main}-${sub.toUpperCase()}` : main;
+  return isLocale(locale) ? locale : isLocale(main) ? main : undefined;
+}